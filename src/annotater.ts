@@ -1,13 +1,30 @@
+import fs from 'fs';
+import path from 'path';
 import * as LSP from 'vscode-languageserver';
-import { TextContext } from './types';
+import { DIRECTIVE_SCHEMAS, formatDirectiveDoc, formatDirectiveSignature } from './directives';
+import { SectionTreeNode, TextContext, TextSymbol } from './types';
 import Document from './types/document';
+import * as QW from './types/queryWrappers';
+import { MediaFile } from './types/workspace';
 
 import Logger from './logger';
 import Server from './server';
-import { formatReferenceText, getTextContext } from './util';
+import {
+  findSectionTreePath,
+  formatFileSize,
+  formatReferenceText,
+  getSymbol,
+  getTextContext,
+  pathToUri,
+  readImageDimensions,
+  safeCollectionGet,
+  tsNodeToLspRange,
+} from './util';
 
 const log = new Logger('annotater');
 
+const PREVIEW_PARAGRAPHS = 2;
+
 export default class Annotater {
 
   private server: Server;
@@ -21,10 +38,45 @@ export default class Annotater {
     const wordContext = getTextContext(doc, position, 'whitespace');
 
     if (wordContext === undefined) return null;
+    const sym = getSymbol(doc, position);
     return this.tryCitation(doc, position, wordContext) ||
+      this.trySectionCitekey(doc, sym) ||
+      this.tryMediaPath(doc, sym) ||
+      this.tryDirectiveType(doc, position) ||
       null;
   }
 
+  // Signature help is offered on the header line of a directive, e.g.
+  // `figure:: path`, with the active parameter given by the number of
+  // arguments typed before the cursor.
+  public getSignatureHelp(doc: Document, position: LSP.Position): LSP.SignatureHelp | null {
+    const textContext = getTextContext(doc, position, 'force');
+    if (textContext === undefined) return null;
+    const m = textContext.lineLeft.match(/^\s*([\w-]+)::(.*)$/);
+    if (m === null) return null;
+    const [, name, argsLeft] = m;
+    const schema = DIRECTIVE_SCHEMAS[name];
+    if (schema === undefined) return null;
+    const label = formatDirectiveSignature(name, schema);
+    let offset = name.length + 2;
+    const parameters = schema.arguments.map((x): LSP.ParameterInformation => {
+      const start = label.indexOf(x.name, offset) - 1;
+      const end = start + x.name.length + 2;
+      offset = end;
+      return { label: [start, end], documentation: x.description };
+    });
+    const typedArgs = argsLeft.trimStart().split(/\s+/).length;
+    return {
+      signatures: [{
+        label,
+        documentation: { kind: LSP.MarkupKind.Markdown, value: formatDirectiveDoc(name, schema) },
+        parameters,
+      }],
+      activeSignature: 0,
+      activeParameter: Math.max(Math.min(typedArgs, parameters.length) - 1, 0),
+    };
+  }
+
   private tryCitation(doc: Document, position: LSP.Position, wordContext: TextContext): LSP.Hover | null {
     const m = wordContext.word.match(/^:cite:`([^`]+)`/);
     if (m === null) return null;
@@ -46,4 +98,118 @@ export default class Annotater {
     }
   }
 
+  // Handles both `:sec:` citations, which show the cited section, and the
+  // citekey of a section header, which shows how often it is cited.
+  private trySectionCitekey(doc: Document, sym: TextSymbol | undefined): LSP.Hover | null {
+    if (sym === undefined || sym.type !== 'section-citekey') return null;
+    const { node } = sym;
+    const citekey = node.text;
+    const range = tsNodeToLspRange(node);
+    if (node.parent?.type === 'sec') {
+      const section = doc.workspace.sectionsByCitekey.get(citekey);
+      if (section === undefined) return null;
+      return {
+        contents: { kind: LSP.MarkupKind.Markdown, value: this.formatSection(doc, section) },
+        range,
+      };
+    } else {
+      const count = doc.workspace.getAllSectionCitations(citekey).length;
+      return {
+        contents: `${count} citation${count === 1 ? '' : 's'} of \`${citekey}\``,
+        range,
+      };
+    }
+  }
+
+  // Handles image paths and media reference keys.
+  private tryMediaPath(doc: Document, sym: TextSymbol | undefined): LSP.Hover | null {
+    if (sym === undefined || sym.type !== 'media-file-path') return null;
+    const mediaFile = doc.workspace.getMediaFile(sym.node.text);
+    if (mediaFile === undefined || !fs.existsSync(mediaFile.absolutePath)) return null;
+    return {
+      contents: { kind: LSP.MarkupKind.Markdown, value: this.formatMediaFile(mediaFile) },
+      range: tsNodeToLspRange(sym.node),
+    };
+  }
+
+  private tryDirectiveType(doc: Document, position: LSP.Position): LSP.Hover | null {
+    const node = doc.tree.rootNode.namedDescendantForIndex(doc.indexAt(position));
+    if (node.type !== 'directive_type') return null;
+    const name = node.text.slice(0, -2);
+    const schema = DIRECTIVE_SCHEMAS[name];
+    if (schema === undefined) return null;
+    return {
+      contents: { kind: LSP.MarkupKind.Markdown, value: formatDirectiveDoc(name, schema) },
+      range: tsNodeToLspRange(node),
+    };
+  }
+
+  // **************************************************************************
+  // ****** FORMATTERS ********************************************************
+
+  private formatMediaFile({ relativePath, absolutePath, type }: MediaFile): string {
+    const stat = fs.statSync(absolutePath);
+    const modified = stat.mtime.toISOString().slice(0, 16).replace('T', ' ');
+    if (stat.isDirectory()) {
+      const entries = fs.readdirSync(absolutePath).filter(x => x !== '.media-unit');
+      return [
+        `**${relativePath}** (media unit)`,
+        `modified ${modified}`,
+        entries.map(x => `- ${x}`).join('\n'),
+      ].join('\n\n');
+    } else {
+      const facts = [formatFileSize(stat.size), `modified ${modified}`];
+      if (type === 'image') {
+        const dims = readImageDimensions(absolutePath);
+        if (dims !== undefined) facts.push(`${dims.width}×${dims.height} px`);
+      }
+      return [
+        `**${relativePath}** (${type})`,
+        facts.join(' · '),
+        ...(type === 'image' ? [`![${path.basename(relativePath)}](${pathToUri(absolutePath)})`] : []),
+      ].join('\n\n');
+    }
+  }
+
+  private formatSection(doc: Document, section: QW.Section): string {
+    const { workspace } = doc;
+    const sectionPath = this.getSectionTreePath(doc, section);
+    const heading = sectionPath === undefined ?
+      section.title :
+      `${sectionPath[sectionPath.length - 1].number} ${sectionPath.map(x => x.title).join(' › ')}`;
+    return [
+      `**${heading}**`,
+      `*${workspace.docUriToRelativePath(section.uri)}*`,
+      ...this.getSectionPreview(section),
+    ].join('\n\n');
+  }
+
+  // Section numbers are taken from the workspace section tree where the
+  // section is reachable from the index, and from its own document otherwise.
+  private getSectionTreePath(doc: Document, section: QW.Section): SectionTreeNode[] | undefined {
+    const { citekey } = section;
+    if (citekey === undefined) return undefined;
+    const { workspace } = doc;
+    const wsPath = workspace.hasSectionTree ?
+      findSectionTreePath(workspace.sectionTree, citekey) : undefined;
+    if (wsPath !== undefined) return wsPath;
+    const sectionDoc = safeCollectionGet(this.server.store.documents, 'uri', section.uri);
+    if (sectionDoc.topSection === undefined) return undefined;
+    return findSectionTreePath(sectionDoc.sectionTree, citekey);
+  }
+
+  // The leading paragraphs of a section's own content, i.e. the text between
+  // its header and its first subsection.
+  private getSectionPreview(section: QW.Section): string[] {
+    const { root, header } = section.nodes;
+    const firstSubsection = root.namedChildren.find(x => /^section_\d$/.test(x.type));
+    const end = firstSubsection?.startIndex ?? root.endIndex;
+    const content = root.text.slice(header.endIndex - root.startIndex, end - root.startIndex);
+    return content
+      .split(/\n\s*\n/)
+      .map(x => x.trim())
+      .filter(x => x.length > 0)
+      .slice(0, PREVIEW_PARAGRAPHS);
+  }
+
 }
@@ -2,26 +2,35 @@ import fs from 'fs';
 import path from 'path';
 import { SyntaxNode } from 'tree-sitter';
 import * as LSP from 'vscode-languageserver';
+import config from './config';
 import Logger from './logger';
 import Server from './server';
+import {
+  DIRECTIVE_SCHEMAS,
+  DirectiveSchema,
+  formatOptionValueType,
+  isValidOptionValue,
+  parseDirectiveOptions,
+} from './directives';
 import {
   DiagnosticCode,
+  FURI,
   PropertyCacher,
 } from './types';
 import Document from './types/document';
+import * as QW from './types/queryWrappers';
 import { makeQuery, Query, QueryMatch } from './types/tree-sitter';
 import Workspace from './types/workspace';
 import {
   assertDefined,
-  DEFINED_DIRECTIVES,
   getCapture,
+  getIncludeRoot,
   groupBy,
   serializeWikiUri,
   tsNodeToLspRange,
-  uriToPath,
 } from './util';
 
-const { Error, Warning } = LSP.DiagnosticSeverity;
+const { Error, Hint, Warning } = LSP.DiagnosticSeverity;
 
 const log = new Logger('auditor');
 
@@ -100,9 +109,14 @@ class DocumentAuditor implements PropertyCacher {
       diagnostics.push(...await this.getBrokenReferenceCitations());
       diagnostics.push(...await this.getBrokenImageReferences());
       diagnostics.push(...await this.getBrokenSectionCitations());
+      diagnostics.push(...await this.getDuplicateReferenceCitekeys());
+      diagnostics.push(...await this.getDuplicateSectionCitekeys());
+      diagnostics.push(...await this.getUncitedReferenceListings());
+      diagnostics.push(...await this.getOrphanedDocument());
       diagnostics.push(...await this.getBrokenIncludes());
       diagnostics.push(...await this.getBrokenOrStaleReferenceKeys());
       diagnostics.push(...await this.getUndefinedDirectives());
+      diagnostics.push(...await this.getInvalidDirectives());
     } catch (err) {
       log.info(`Caught error: ${err}`);
     }
@@ -191,15 +205,96 @@ class DocumentAuditor implements PropertyCacher {
     ));
   }
 
+  // ===== DUPLICATE CITEKEYS =================================================
+
+  // Reported on every occurrence, each pointing at the others, since the
+  // workspace tables keep only the last definition of a citekey.
+  @logger('duplicate-reference-citekey')
+  private getDuplicateReferenceCitekeys(): LSP.Diagnostic[] {
+    return this.document.referenceListings.flatMap(({ citekey, nodes }) => {
+      if (citekey === undefined || nodes.citekey === undefined) return [];
+      const definitions = this.workspace.getAllReferenceListings(citekey, 'citekey')
+        .map(x => ({ uri: x.uri, node: x.nodes.citekey }));
+      return this.makeDuplicateDiagnostics(
+        nodes.citekey, definitions, 'duplicate-reference-citekey', 'reference listing',
+      );
+    });
+  }
+
+  @logger('duplicate-section-citekey')
+  private getDuplicateSectionCitekeys(): LSP.Diagnostic[] {
+    return this.document.sections.flatMap(({ citekey, nodes }) => {
+      if (citekey === undefined || nodes.citekey === undefined) return [];
+      const definitions = this.workspace.getAllSections(citekey)
+        .map(x => ({ uri: x.uri, node: x.nodes.citekey }));
+      return this.makeDuplicateDiagnostics(
+        nodes.citekey, definitions, 'duplicate-section-citekey', 'section',
+      );
+    });
+  }
+
+  private makeDuplicateDiagnostics(
+    node: SyntaxNode,
+    definitions: { uri: FURI, node: SyntaxNode | undefined }[],
+    code: DiagnosticCode,
+    kind: string,
+  ): LSP.Diagnostic[] {
+    const others = definitions.filter(x => !(
+      x.node === undefined || (x.uri === this.document.uri && x.node.startIndex === node.startIndex)
+    ));
+    if (others.length === 0) return [];
+    return [{
+      ...this.makeDiagnostic(
+        node, Error, code, `Citekey ${node.text} is used by ${others.length + 1} ${kind}s.`,
+      ),
+      relatedInformation: others.map(x => {
+        assertDefined(x.node);
+        return {
+          location: { uri: x.uri, range: tsNodeToLspRange(x.node) },
+          message: `Other ${kind} with citekey ${node.text}`,
+        };
+      }),
+    }];
+  }
+
+  // ===== UNCITED REFERENCE LISTINGS =========================================
+
+  @logger('uncited-reference-listing')
+  private getUncitedReferenceListings(): LSP.Diagnostic[] {
+    // the uncited references file is where uncited listings are meant to go
+    const uncitedUri = this.workspace.relativePathToDocUri(config.uncitedReferencesFile);
+    if (this.document.uri === uncitedUri) return [];
+    return this.document.referenceListings
+      .filter(({ citekey }) => (
+        citekey !== undefined && this.workspace.getAllReferenceCitations(citekey).length === 0
+      ))
+      .map(x => ({
+        ...this.makeDiagnostic(
+          x.nodes.root, Hint, 'uncited-reference-listing',
+          `Reference ${x.citekey} is never cited.`,
+        ),
+        tags: [LSP.DiagnosticTag.Unnecessary],
+      }));
+  }
+
+  // ===== ORPHANED DOCUMENT ==================================================
+
+  @logger('orphaned-document')
+  private getOrphanedDocument(): LSP.Diagnostic[] {
+    if (!this.workspace.orphans.includes(this.document.uri)) return [];
+    const root = this.document.topSection;
+    const target = root === undefined ? LSP.Range.create(0, 0, 0, 0) : root.nodes.header;
+    return [this.makeDiagnostic(
+      target, Warning, 'orphaned-document',
+      'Document is not included from the workspace index.',
+    )];
+  }
+
   // ===== BROKEN INCLUDES ======================================================
 
   @logger('broken-include')
   private getBrokenIncludes(): LSP.Diagnostic[] {
-    const dpath = uriToPath(this.document.uri);
-    const dirname = path.dirname(dpath);
-    const basename = path.basename(dpath);
-    const basePath = basename === 'index.rst' ?
-      dirname : path.join(dirname, basename.replace(/\.rst$/, ''));
+    const basePath = getIncludeRoot(this.document.uri);
     const diags: LSP.Diagnostic[] = [];
     log.info(`Found ${this.document.includes.length} includes.`);
     this.document.includes.forEach(({ key, nodes }) => {
@@ -272,7 +367,7 @@ class DocumentAuditor implements PropertyCacher {
     const diags: LSP.Diagnostic[] = [];
     this.execQuery(query).forEach(x => {
       const type = getCapture(x, 'type', false).text.slice(0, -2);
-      if (!DEFINED_DIRECTIVES.includes(type)) {
+      if (DIRECTIVE_SCHEMAS[type] === undefined) {
         log.log(`type is ${type}`);
         diags.push(this.makeDiagnostic(
           getCapture(x, 'root', false), Error,
@@ -283,11 +378,89 @@ class DocumentAuditor implements PropertyCacher {
     return diags;
   }
 
+  // ===== INVALID DIRECTIVES ===================================================
+
+  // Checks the arguments, options and content of defined directives against
+  // their schemas. Arguments are whitespace-separated, with the last taking
+  // the remainder of the line, so only missing arguments can be detected.
+  @logger(
+    'missing-directive-argument',
+    'unknown-directive-option',
+    'invalid-directive-option-value',
+    'unexpected-directive-content',
+  )
+  private getInvalidDirectives(): LSP.Diagnostic[] {
+    return this.document.directives.flatMap(directive => {
+      const name = directive.type.slice(0, -2);
+      const schema = DIRECTIVE_SCHEMAS[name];
+      if (schema === undefined) return [];
+      return [
+        ...this.checkDirectiveArguments(directive, name, schema),
+        ...this.checkDirectiveOptions(directive, name, schema),
+        ...this.checkDirectiveContent(directive, name, schema),
+      ];
+    });
+  }
+
+  private checkDirectiveArguments(
+    { arguments: args, nodes }: QW.Directive,
+    name: string,
+    schema: DirectiveSchema,
+  ): LSP.Diagnostic[] {
+    const count = (args ?? '').trim().split(/\s+/).filter(x => x !== '').length;
+    const missing = schema.arguments.filter(x => x.required).slice(count);
+    return missing.map(x => this.makeDiagnostic(
+      nodes.type, Error, 'missing-directive-argument',
+      `Directive \`${name}::\` is missing required argument \`${x.name}\`.`,
+    ));
+  }
+
+  private checkDirectiveOptions(
+    { nodes }: QW.Directive,
+    name: string,
+    schema: DirectiveSchema,
+  ): LSP.Diagnostic[] {
+    const optionsNode = nodes.options;
+    if (optionsNode === undefined) return [];
+    const { row: baseRow, column: baseColumn } = optionsNode.startPosition;
+    return parseDirectiveOptions(optionsNode.text).flatMap(entry => {
+      const row = baseRow + entry.row;
+      const column = entry.column + (entry.row === 0 ? baseColumn : 0);
+      const range = LSP.Range.create(row, column, row, column + entry.length);
+      const option = schema.options.find(x => x.name === entry.name);
+      if (option === undefined) {
+        return [this.makeDiagnostic(
+          range, Error, 'unknown-directive-option',
+          `Directive \`${name}::\` has no option \`:${entry.name}:\`.`,
+        )];
+      } else if (!isValidOptionValue(option, entry.value)) {
+        const message = option.type === 'flag' ?
+          `Option \`:${entry.name}:\` takes no value.` :
+          `Invalid value \`${entry.value}\` for option \`:${entry.name}:\`, expected ${formatOptionValueType(option)}.`;
+        return [this.makeDiagnostic(range, Error, 'invalid-directive-option-value', message)];
+      } else {
+        return [];
+      }
+    });
+  }
+
+  private checkDirectiveContent(
+    { nodes }: QW.Directive,
+    name: string,
+    schema: DirectiveSchema,
+  ): LSP.Diagnostic[] {
+    if (schema.content !== undefined || nodes.content === undefined) return [];
+    return [this.makeDiagnostic(
+      nodes.content, Error, 'unexpected-directive-content',
+      `Directive \`${name}::\` does not take content.`,
+    )];
+  }
+
   // **************************************************************************
   // ****** UTILITIES *********************************************************
 
   private makeDiagnostic(
-    node: SyntaxNode,
+    target: SyntaxNode | LSP.Range,
     severity: LSP.DiagnosticSeverity,
     code: DiagnosticCode,
     message: string,
@@ -296,7 +469,7 @@ class DocumentAuditor implements PropertyCacher {
       severity,
       message,
       code,
-      range: tsNodeToLspRange(node),
+      range: LSP.Range.is(target) ? target : tsNodeToLspRange(target),
       source: 'memexwiki',
     };
   }
@@ -0,0 +1,80 @@
+import path from 'path';
+import * as LSP from 'vscode-languageserver';
+import Logger from './logger';
+import Server from './server';
+import Document from './types/document';
+import { IncludeEdge } from './types/workspace';
+import {
+  groupBy,
+  lspPositionToTsPoint,
+  safeCollectionGet,
+  tsNodeToLspRange,
+} from './util';
+
+const log = new Logger('call-hierarchy-provider');
+
+// Exposes the include graph as a call hierarchy: a document "calls" every
+// document its `include::` lines resolve to.
+export default class CallHierarchyProvider {
+
+  private server: Server;
+
+  constructor(server: Server) {
+    this.server = server;
+  }
+
+  get store() { return this.server.store; }
+
+  // On an include line, the hierarchy is rooted at the included document;
+  // anywhere else, at the current document.
+  public prepare(doc: Document, position: LSP.Position): LSP.CallHierarchyItem[] {
+    const index = doc.indexAt(lspPositionToTsPoint(position));
+    const edge = doc.workspace.includeEdges.find(({ source, include }) => (
+      source.uri === doc.uri &&
+        include.nodes.root.startIndex <= index && index <= include.nodes.root.endIndex
+    ));
+    return [this.makeItem(edge?.target ?? doc)];
+  }
+
+  public getIncomingCalls(item: LSP.CallHierarchyItem): LSP.CallHierarchyIncomingCall[] {
+    const doc = safeCollectionGet(this.store.documents, 'uri', item.uri);
+    const edges = doc.workspace.includeEdges.filter(x => x.target.uri === doc.uri);
+    log.info(`Found ${edges.length} incoming includes for ${doc}`);
+    return [...groupBy(edges, x => x.source).entries()].map(([source, iedges]) => ({
+      from: this.makeItem(source),
+      fromRanges: this.getIncludeRanges(iedges),
+    }));
+  }
+
+  public getOutgoingCalls(item: LSP.CallHierarchyItem): LSP.CallHierarchyOutgoingCall[] {
+    const doc = safeCollectionGet(this.store.documents, 'uri', item.uri);
+    const edges = doc.workspace.includeEdges.filter(x => x.source.uri === doc.uri);
+    log.info(`Found ${edges.length} outgoing includes for ${doc}`);
+    return [...groupBy(edges, x => x.target).entries()].map(([target, iedges]) => ({
+      to: this.makeItem(target),
+      fromRanges: this.getIncludeRanges(iedges),
+    }));
+  }
+
+  // **************************************************************************
+  // ****** UTILITIES *********************************************************
+
+  // Documents without a level-1 section are named after their file.
+  private makeItem(doc: Document): LSP.CallHierarchyItem {
+    const section = doc.topSection;
+    const emptyRange = LSP.Range.create(0, 0, 0, 0);
+    return {
+      name: section?.title ?? path.basename(doc.relativePath),
+      detail: doc.relativePath,
+      kind: LSP.SymbolKind.File,
+      uri: doc.uri,
+      range: section === undefined ? emptyRange : tsNodeToLspRange(section.nodes.root),
+      selectionRange: section === undefined ? emptyRange : tsNodeToLspRange(section.nodes.title),
+    };
+  }
+
+  private getIncludeRanges(edges: IncludeEdge[]): LSP.Range[] {
+    return edges.map(x => tsNodeToLspRange(x.include.nodes.key));
+  }
+
+}
@@ -37,6 +37,7 @@ export default class CodeLensAnnotater {
         command: {
           title: `${refs.length} citations`,
           command: 'getCitations',
+          arguments: [doc.uri, x.citekey, 'section'],
         },
       };
     });
@@ -57,6 +58,7 @@ export default class CodeLensAnnotater {
         command: {
           title: `${refs.length} citations`,
           command: 'getCitations',
+          arguments: [doc.uri, x.citekey, 'reference'],
         },
       };
     });
@@ -1,20 +1,41 @@
 import path from 'path';
+import { SyntaxNode } from 'tree-sitter';
 import * as LSP from 'vscode-languageserver';
+import {
+  DIRECTIVE_SCHEMAS,
+  formatDirectiveDoc,
+  formatDirectiveSnippet,
+  formatOptionValueType,
+  parseDirectiveOptions,
+} from './directives';
 import Logger from './logger';
-import { getTextContext, insideNodeOfType, uriToPath } from './util';
+import {
+  formatReferenceText,
+  fuzzyScore,
+  generateCitekey,
+  getTextContext,
+  insideNodeOfType,
+  safeCollectionGet,
+  uriToPath,
+} from './util';
+import { FURI, SectionTreeNode } from './types';
 import Document from './types/document';
+import * as QW from './types/queryWrappers';
 import Server from './server';
 import { MediaType } from './types/workspace';
 
 const log = new Logger('completer');
 
-const DIRECTIVES = [
-  'note',
-  'references',
-  'flag',
-  'sections',
-  'tasks',
-];
+// Stored on completion items and read back in `completionItem/resolve`.
+type CompletionData = {
+  uri: FURI,
+  type: 'reference',
+  citekey: string,
+};
+
+// Score added to citekeys already cited in the current document, divided by
+// the rank of their nearest citation's distance to the cursor.
+const CITED_BOOST = 5;
 
 const ROLES = [
   'cite',
@@ -45,15 +66,18 @@ export default class Completer {
     if (textContext === undefined) return [];
     const { lineLeft, wordLeft, precedingLine } = textContext;
     log.info(`completion word: ${wordLeft}`);
-    if (wordLeft === ':') {
+    const directive = getEnclosingDirective(doc, position);
+    if (directive !== undefined && /^\s+:[\w-]*(:\s*\S*)?$/.test(lineLeft)) {
+      return this.getDirectiveOptionCompletions(directive, lineLeft.trimStart());
+    } else if (wordLeft === ':') {
       return this.getRoleCompletions();
     } else if (/^:cite:`/.test(wordLeft)) {
       const commaIndex = wordLeft.lastIndexOf(',');
       if (commaIndex === -1) {
-        return this.getCiteCompletions(doc, wordLeft.substr(7));
+        return this.getCiteCompletions(doc, position, wordLeft.substr(7));
       } else {
         const exclude = wordLeft.slice(7, commaIndex).split(',');
-        return this.getCiteCompletions(doc, wordLeft.substr(commaIndex + 1), exclude);
+        return this.getCiteCompletions(doc, position, wordLeft.substr(commaIndex + 1), exclude);
       }
     } else if (/^:sec:`/.test(wordLeft)) {
       return this.getSecCompletions(doc, wordLeft.substr(6));
@@ -79,29 +103,112 @@ export default class Completer {
     }
   }
 
+  // Documentation is computed lazily, as formatting every candidate reference
+  // up front is wasted work for the items the user never selects.
+  resolve(item: LSP.CompletionItem): LSP.CompletionItem {
+    const data = item.data as CompletionData | undefined;
+    if (data?.type === 'reference') {
+      const doc = safeCollectionGet(this.server.store.documents, 'uri', data.uri);
+      const ref = doc.workspace.referencesByCitekey.get(data.citekey);
+      if (ref !== undefined) item.documentation = formatReferenceText(ref);
+    }
+    return item;
+  }
+
   // **************************************************************************
   // ****** CANDIDATE GENERATORS **********************************************
 
-  private getCiteCompletions(doc: Document, head: string, exclude: String[] = []): LSP.CompletionItem[] {
-    const headPat = new RegExp(`^${head}`);
-    const cands = [...doc.workspace.referencesByCitekey.keys()].filter(ck => (
-      headPat.test(ck) && !exclude.includes(ck)
+  // Candidates are ranked by the best fuzzy match of the head against the
+  // citekey, display name and key of each reference.
+  private getCiteCompletions(
+    doc: Document,
+    position: LSP.Position,
+    head: string,
+    exclude: string[] = [],
+  ): LSP.CompletionItem[] {
+    const boosts = this.getCitationBoosts(doc, position);
+    const cands = [...doc.workspace.referencesByCitekey.entries()]
+      .filter(([ck]) => !exclude.includes(ck))
+      .map(([ck, ref]) => {
+        const targets = [ck, ref.displayName, ref.key].filter((x): x is string => x !== undefined);
+        const scores = targets
+          .map(x => fuzzyScore(head, x))
+          .filter((x): x is number => x !== undefined);
+        if (scores.length === 0) return undefined;
+        return { ck, ref, targets, score: Math.max(...scores) + (boosts.get(ck) ?? 0) };
+      })
+      .filter(<T>(x: T | undefined): x is T => x !== undefined)
+      .sort((a, b) => b.score - a.score);
+    return cands.map(({ ck, ref, targets }, i) => {
+      const data: CompletionData = { uri: doc.uri, type: 'reference', citekey: ck };
+      return {
+        label: ck,
+        kind: LSP.CompletionItemKind.Reference,
+        detail: ref.type,
+        sortText: String(i).padStart(5, '0'),
+        filterText: targets.join(' '),
+        data,
+      };
+    });
+  }
+
+  // Citekeys cited in the document, boosted more the nearer their closest
+  // citation is to the cursor.
+  private getCitationBoosts(doc: Document, position: LSP.Position): Map<string, number> {
+    const index = doc.indexAt(position);
+    const byDistance = [...doc.referenceCitations].sort((a, b) => (
+      Math.abs(a.nodes.root.startIndex - index) - Math.abs(b.nodes.root.startIndex - index)
     ));
-    return cands.map(ck => ({
-      label: ck,
-      kind: LSP.CompletionItemKind.Reference,
-    }));
+    const boosts = new Map<string, number>();
+    byDistance.forEach(({ citekey }) => {
+      if (citekey !== '?' && !boosts.has(citekey)) {
+        boosts.set(citekey, CITED_BOOST / (boosts.size + 1));
+      }
+    });
+    return boosts;
   }
 
   private getDirectiveCompletions(_doc: Document, head: string): LSP.CompletionItem[] {
-    const headPat = new RegExp(`^${head}`);
-    const matches = head === '' ? DIRECTIVES : DIRECTIVES.filter(d => headPat.test(d));
-    return matches.map(dir => ({
-      label: dir,
-      kind: LSP.CompletionItemKind.Function,
-      insertTextFormat: LSP.InsertTextFormat.Snippet,
-      insertText: `${dir}::`,
-    }));
+    return Object.entries(DIRECTIVE_SCHEMAS)
+      .filter(([name]) => name.startsWith(head))
+      .map(([name, schema]) => ({
+        label: name,
+        kind: LSP.CompletionItemKind.Function,
+        detail: schema.description,
+        documentation: { kind: LSP.MarkupKind.Markdown, value: formatDirectiveDoc(name, schema) },
+        insertTextFormat: LSP.InsertTextFormat.Snippet,
+        insertText: formatDirectiveSnippet(name, schema),
+      }));
+  }
+
+  // Completes option names after a leading `:` on an option line, and the
+  // values of enum options after the option name, e.g. `:align: `.
+  private getDirectiveOptionCompletions(directive: SyntaxNode, optionLeft: string): LSP.CompletionItem[] {
+    const name = getDirectiveName(directive);
+    const schema = DIRECTIVE_SCHEMAS[name];
+    if (schema === undefined) return [];
+    const m = optionLeft.match(/^:([\w-]+):\s*(\S*)$/);
+    if (m === null) {
+      const optionsNode = directive.namedChildren.find(x => x.type === 'directive_options');
+      const present = parseDirectiveOptions(optionsNode?.text ?? '').map(x => x.name);
+      return schema.options
+        .filter(x => !present.includes(x.name))
+        .map(x => ({
+          label: `:${x.name}:`,
+          kind: LSP.CompletionItemKind.Property,
+          detail: formatOptionValueType(x),
+          documentation: x.description,
+          filterText: x.name,
+          insertTextFormat: LSP.InsertTextFormat.Snippet,
+          insertText: x.type === 'flag' ? `${x.name}:` : `${x.name}: $0`,
+        }));
+    } else {
+      const option = schema.options.find(x => x.name === m[1]);
+      return (option?.values ?? []).map(value => ({
+        label: value,
+        kind: LSP.CompletionItemKind.EnumMember,
+      }));
+    }
   }
 
   private getRoleCompletions(): LSP.CompletionItem[] {
@@ -113,15 +220,68 @@ export default class Completer {
     }));
   }
 
+  // Candidates are all sections of the workspace, labeled with their number
+  // and title path. Sections without a citekey are offered with a generated
+  // one, which the `addSectionCitekey` command writes into the section header
+  // once the item is accepted.
   private getSecCompletions(doc: Document, head: string): LSP.CompletionItem[] {
-    const headPat = new RegExp(`^${head}`);
-    const cands = [...doc.workspace.referencesByCitekey.keys()].filter(ck => (
-      headPat.test(ck)
-    ));
-    return cands.map(ck => ({
-      label: ck,
-      kind: LSP.CompletionItemKind.Reference,
-    }));
+    const { workspace } = doc;
+    const sectionPaths = this.getSectionTreePaths(doc);
+    const existing = new Set(workspace.sectionsByCitekey.keys());
+    const cands = workspace.documents.flatMap(idoc => idoc.sections.map(section => {
+      const sectionPath = sectionPaths.get(getSectionKey(section)) ?? [];
+      const titlePath = sectionPath.length === 0 ?
+        section.title : sectionPath.map(x => x.title).join(' › ');
+      const number = sectionPath[sectionPath.length - 1]?.number;
+      const isNew = section.citekey === undefined;
+      const citekey = section.citekey ?? generateCitekey(section.title, existing);
+      if (isNew) existing.add(citekey);
+      const scores = [citekey, titlePath]
+        .map(x => fuzzyScore(head, x))
+        .filter((x): x is number => x !== undefined);
+      return { section, titlePath, number, isNew, citekey, score: Math.max(...scores) };
+    })).filter(x => Number.isFinite(x.score))
+      .sort((a, b) => (Number(a.isNew) - Number(b.isNew)) || (b.score - a.score));
+    return cands.map(({ section, titlePath, number, isNew, citekey }, i) => {
+      const relPath = workspace.docUriToRelativePath(section.uri);
+      return {
+        label: number === undefined ? titlePath : `${number} ${titlePath}`,
+        kind: LSP.CompletionItemKind.Reference,
+        detail: isNew ? `${relPath} (new citekey \`${citekey}\`)` : relPath,
+        sortText: String(i).padStart(5, '0'),
+        filterText: `${citekey} ${titlePath}`,
+        insertText: citekey,
+        command: isNew ? {
+          title: 'Add section citekey',
+          command: 'addSectionCitekey',
+          arguments: [section.uri, section.nodes.root.startPosition.row, citekey],
+        } : undefined,
+      };
+    });
+  }
+
+  // Section tree paths keyed by section, taken from the workspace section tree
+  // for sections reachable from the index and from their own document's tree
+  // otherwise.
+  private getSectionTreePaths(doc: Document): Map<string, SectionTreeNode[]> {
+    const { workspace } = doc;
+    const paths = new Map<string, SectionTreeNode[]>();
+    const visit = (node: SectionTreeNode, ancestors: SectionTreeNode[]) => {
+      const nodePath = [...ancestors, node];
+      paths.set(`${node.uri}:${node.line}`, nodePath);
+      node.children.forEach(child => visit(child, nodePath));
+    };
+    if (workspace.hasSectionTree) {
+      visit(workspace.sectionTree, []);
+    }
+    // documents without a level-1 section, e.g. empty drafts, have no tree
+    workspace.documents.forEach(idoc => {
+      const { topSection } = idoc;
+      if (topSection !== undefined && !paths.has(getSectionKey(topSection))) {
+        visit(idoc.sectionTree, []);
+      }
+    });
+    return paths;
   }
 
   private getIncludeCompletions(doc: Document, head: string): LSP.CompletionItem[] {
@@ -172,3 +332,23 @@ export default class Completer {
   }
 
 }
+
+function getSectionKey(section: QW.Section): string {
+  return `${section.uri}:${section.nodes.root.startPosition.row}`;
+}
+
+// The directive whose options may be typed at `position`: a directive
+// starting on an earlier line whose content, if any, starts after it.
+function getEnclosingDirective(doc: Document, position: LSP.Position): SyntaxNode | undefined {
+  let node: SyntaxNode | null = doc.tree.rootNode.namedDescendantForIndex(doc.indexAt(position));
+  while (node !== null && node.type !== 'directive') node = node.parent;
+  if (node === null || node.startPosition.row >= position.line) return undefined;
+  const content = node.namedChildren.find(x => x.type === 'directive_content');
+  if (content !== undefined && content.startPosition.row <= position.line) return undefined;
+  return node;
+}
+
+function getDirectiveName(directive: SyntaxNode): string {
+  const type = directive.namedChildren.find(x => x.type === 'directive_type');
+  return type === undefined ? '' : type.text.slice(0, -2);
+}
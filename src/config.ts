@@ -7,6 +7,8 @@ const DEFAULTS: Config = {
   logMode: 'console',
   projectRootPatterns: ['.git'],
   redisURL: undefined,
+  uncitedReferencesFile: 'uncited.rst',
+  mediaTrashDir: '.media-trash',
 };
 
 export default {
@@ -27,4 +29,16 @@ export default {
     return conf.redisURL;
   },
 
+  // Workspace-relative path of the document uncited reference listings are
+  // moved to.
+  get uncitedReferencesFile(): string {
+    return conf.uncitedReferencesFile;
+  },
+
+  // Workspace-relative directory unused media files are moved to. It must lie
+  // outside `media/`, or trashed files would be picked up as media again.
+  get mediaTrashDir(): string {
+    return conf.mediaTrashDir;
+  },
+
 };
@@ -1,6 +1,16 @@
+import fs from 'fs';
+import path from 'path';
+import { SyntaxNode } from 'tree-sitter';
 import * as LSP from 'vscode-languageserver';
 import Logger from './logger';
-import { getTextContext, insideNodeOfType, safeCollectionGet, tsNodeToLspRange } from './util';
+import {
+  getSymbol,
+  getTextContext,
+  insideNodeOfType,
+  pathToUri,
+  safeCollectionGet,
+  tsNodeToLspRange,
+} from './util';
 import Document from './types/document';
 import Server from './server';
 
@@ -27,6 +37,13 @@ export default class DefinitionResolver {
   resolve(doc: Document, position: LSP.Position): LSP.DefinitionLink[] | null {
     log.info(`initiating definition resolution for ${doc.uri}`);
 
+    // media paths contain characters that are not symbol characters, so they
+    // are detected from the parse tree rather than the text context
+    const sym = getSymbol(doc, position);
+    if (sym?.type === 'media-file-path') {
+      return this.resolveMediaDefinition(doc, sym.node);
+    }
+
     const textContext = getTextContext(doc, position, 'symbol');
     if (textContext === undefined) return null;
     const { lineLeft, word, wordRange } = textContext;
@@ -35,6 +52,43 @@ export default class DefinitionResolver {
     } else if (insideNodeOfType(doc, position, 'cite')) {
       log.info('resolving citkeey');
       return this.resolveCitekeyDefinition(doc, word, wordRange);
+    } else if (insideNodeOfType(doc, position, 'sec')) {
+      return this.resolveSectionDefinition(doc, word, wordRange);
+    } else {
+      return null;
+    }
+  }
+
+  // Declarations of citekeys are the citekeys of reference listings and
+  // section headers. On a declaration itself, this resolves to the
+  // declaration.
+  resolveDeclaration(doc: Document, position: LSP.Position): LSP.DeclarationLink[] | null {
+    log.info(`initiating declaration resolution for ${doc.uri}`);
+    const sym = getSymbol(doc, position);
+    if (sym === undefined) return null;
+    const citekey = sym.node.text;
+    const originSelectionRange = tsNodeToLspRange(sym.node);
+    if (sym.type === 'reference-citekey') {
+      const refs = doc.workspace.getAllReferenceListings(citekey, 'citekey');
+      return refs.length === 0 ? null : refs.map(x => {
+        const target = tsNodeToLspRange(x.nodes.citekey || x.nodes.root);
+        return {
+          originSelectionRange,
+          targetUri: x.uri,
+          targetRange: target,
+          targetSelectionRange: target,
+        };
+      });
+    } else if (sym.type === 'section-citekey') {
+      const section = doc.workspace.sectionsByCitekey.get(citekey);
+      if (section === undefined) return null;
+      const target = tsNodeToLspRange(section.nodes.citekey || section.nodes.header);
+      return [{
+        originSelectionRange,
+        targetUri: section.uri,
+        targetRange: target,
+        targetSelectionRange: target,
+      }];
     } else {
       return null;
     }
@@ -82,4 +136,35 @@ export default class DefinitionResolver {
     }
   }
 
+  private resolveSectionDefinition(doc: Document, citekey: string, originSelectionRange: LSP.Range): LSP.DefinitionLink[] | null {
+    const section = doc.workspace.sectionsByCitekey.get(citekey);
+    log.info(`found ${section === undefined ? 0 : 1} sections for ${citekey}`);
+    if (section === undefined) return null;
+    return [{
+      originSelectionRange,
+      targetUri: section.uri,
+      targetRange: tsNodeToLspRange(section.nodes.header),
+      targetSelectionRange: tsNodeToLspRange(section.nodes.title),
+    }];
+  }
+
+  // A `.media-unit` directory resolves to its index file if it has one, and to
+  // its `.media-unit` marker file otherwise.
+  private resolveMediaDefinition(doc: Document, node: SyntaxNode): LSP.DefinitionLink[] | null {
+    const mediaFile = doc.workspace.getMediaFile(node.text);
+    if (mediaFile === undefined) return null;
+    let targetPath = mediaFile.absolutePath;
+    if (mediaFile.relativePath.endsWith('/')) {
+      const index = fs.readdirSync(targetPath).find(x => /^index\./.test(x));
+      targetPath = path.join(targetPath, index ?? '.media-unit');
+    }
+    const targetRange = LSP.Range.create(0, 0, 0, 0);
+    return [{
+      originSelectionRange: tsNodeToLspRange(node),
+      targetUri: pathToUri(targetPath),
+      targetRange,
+      targetSelectionRange: targetRange,
+    }];
+  }
+
 }
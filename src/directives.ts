@@ -0,0 +1,224 @@
+// ****************************************************************************
+// ****** TYPES ***************************************************************
+
+export type DirectiveArgument = {
+  name: string,
+  required: boolean,
+  description: string,
+};
+
+// `flag` options take no value; `enum` options take one of `values`.
+export type OptionValueType = 'flag' | 'integer' | 'length' | 'integers' | 'string' | 'enum';
+
+export type DirectiveOption = {
+  name: string,
+  type: OptionValueType,
+  values?: string[],
+  description: string,
+};
+
+export type DirectiveSchema = {
+  description: string,
+  arguments: DirectiveArgument[],
+  options: DirectiveOption[],
+  content: string | undefined,  // undefined if the directive takes no content
+};
+
+// ****************************************************************************
+// ****** SCHEMAS *************************************************************
+
+// The single source of truth for which directives are defined and what they
+// accept. Completion, hover, signature help and the auditor all read from it.
+export const DIRECTIVE_SCHEMAS: { [name: string]: DirectiveSchema } = {
+
+  'code': {
+    description: 'A block of source code, displayed verbatim.',
+    arguments: [
+      { name: 'language', required: false, description: 'Language used for syntax highlighting.' },
+    ],
+    options: [
+      { name: 'linenos', type: 'flag', description: 'Show line numbers.' },
+    ],
+    content: 'The source code.',
+  },
+
+  'figure': {
+    description: 'An image with an optional caption.',
+    arguments: [
+      { name: 'path', required: true, description: 'Path of the image, relative to the workspace `media/` directory.' },
+    ],
+    options: [
+      { name: 'alt', type: 'string', description: 'Alternate text for the image.' },
+      { name: 'width', type: 'length', description: 'Display width, e.g. `400px` or `50%`.' },
+      { name: 'height', type: 'length', description: 'Display height, e.g. `300px`.' },
+      { name: 'align', type: 'enum', values: ['left', 'center', 'right'], description: 'Horizontal alignment.' },
+    ],
+    content: 'The caption.',
+  },
+
+  'flag': {
+    description: 'A marker drawing attention to the enclosing section, e.g. to flag it for revision.',
+    arguments: [
+      { name: 'label', required: false, description: 'Kind of flag, e.g. `todo`.' },
+    ],
+    options: [],
+    content: 'An explanation of the flag.',
+  },
+
+  'image-carousel': {
+    description: 'A set of images displayed one at a time.',
+    arguments: [],
+    options: [],
+    content: 'Image paths, one per line, relative to the workspace `media/` directory.',
+  },
+
+  'math': {
+    description: 'A displayed mathematical formula.',
+    arguments: [],
+    options: [],
+    content: 'The formula in LaTeX.',
+  },
+
+  'note': {
+    description: 'A note set apart from the surrounding text.',
+    arguments: [
+      { name: 'title', required: false, description: 'Title of the note.' },
+    ],
+    options: [],
+    content: 'The body of the note.',
+  },
+
+  'references': {
+    description: 'A block of reference listings, which `:cite:` roles resolve against.',
+    arguments: [
+      { name: 'title', required: false, description: 'Title of the block.' },
+    ],
+    options: [],
+    content: 'Reference listings, one per line, each an optional citekey followed by a reference key.',
+  },
+
+  'sections': {
+    description: 'Includes other documents of the workspace as subsections.',
+    arguments: [],
+    options: [],
+    content: '`include::` lines, one per document.',
+  },
+
+  'table': {
+    description: 'A table.',
+    arguments: [
+      { name: 'title', required: false, description: 'Title of the table.' },
+    ],
+    options: [
+      { name: 'header-rows', type: 'integer', description: 'Number of rows to display as headers.' },
+      { name: 'widths', type: 'integers', description: 'Relative column widths, separated by spaces.' },
+    ],
+    content: 'The table body.',
+  },
+
+  'tasks': {
+    description: 'A checklist of tasks.',
+    arguments: [],
+    options: [],
+    content: 'Tasks, one per line.',
+  },
+
+  'video': {
+    description: 'An embedded video.',
+    arguments: [
+      { name: 'path', required: true, description: 'Path of the video, relative to the workspace `media/` directory.' },
+    ],
+    options: [
+      { name: 'width', type: 'length', description: 'Display width, e.g. `640px`.' },
+      { name: 'autoplay', type: 'flag', description: 'Start playing when displayed.' },
+    ],
+    content: undefined,
+  },
+
+};
+
+// ****************************************************************************
+// ****** PARSING *************************************************************
+
+export type DirectiveOptionEntry = {
+  name: string,
+  value: string,
+  row: number,  // row offset within the options text
+  column: number,  // column of the leading `:` within its line
+  length: number,
+};
+
+// The grammar captures a directive's options as a single node, so individual
+// `:name: value` lines are split out here.
+export function parseDirectiveOptions(text: string): DirectiveOptionEntry[] {
+  return text.split('\n').map((line, row) => {
+    const m = line.match(/^(\s*):([\w-]+):(.*)$/);
+    if (m === null) return undefined;
+    const [, indent, name, value] = m;
+    const column = indent.length;
+    return { name, value: value.trim(), row, column, length: line.trimEnd().length - column };
+  }).filter((x): x is DirectiveOptionEntry => x !== undefined);
+}
+
+// ===== VALIDATION ===========================================================
+
+const OPTION_VALUE_PATTERNS: { [type in OptionValueType]: RegExp } = {
+  flag: /^$/,
+  integer: /^\d+$/,
+  length: /^\d+(\.\d+)?(px|em|rem|%)?$/,
+  integers: /^\d+(\s+\d+)*$/,
+  string: /\S/,
+  enum: /\S/,
+};
+
+export function isValidOptionValue(option: DirectiveOption, value: string): boolean {
+  if (option.type === 'enum') return (option.values ?? []).includes(value);
+  return OPTION_VALUE_PATTERNS[option.type].test(value);
+}
+
+// ****************************************************************************
+// ****** FORMATTERS **********************************************************
+
+export function formatDirectiveSignature(name: string, schema: DirectiveSchema): string {
+  const args = schema.arguments.map(x => (x.required ? `<${x.name}>` : `[${x.name}]`));
+  return [`${name}::`, ...args].join(' ');
+}
+
+export function formatOptionValueType(option: DirectiveOption): string {
+  if (option.type === 'enum') {
+    return (option.values ?? []).map(x => `\`${x}\``).join(' | ');
+  } else {
+    return option.type;
+  }
+}
+
+export function formatDirectiveDoc(name: string, schema: DirectiveSchema): string {
+  const formatArgument = (x: DirectiveArgument) => (
+    `- \`${x.name}\`${x.required ? ' (required)' : ''}: ${x.description}`
+  );
+  const formatOption = (x: DirectiveOption) => (
+    `- \`:${x.name}:\` (${formatOptionValueType(x)}): ${x.description}`
+  );
+  const parts = [
+    `**${formatDirectiveSignature(name, schema)}**`,
+    schema.description,
+  ];
+  if (schema.arguments.length > 0) {
+    parts.push(['*Arguments*', ...schema.arguments.map(formatArgument)].join('\n'));
+  }
+  if (schema.options.length > 0) {
+    parts.push(['*Options*', ...schema.options.map(formatOption)].join('\n'));
+  }
+  parts.push(`*Content*: ${schema.content ?? 'none'}`);
+  return parts.join('\n\n');
+}
+
+// Snippet inserting a directive with tab stops for its required arguments,
+// followed by an indented content line if the directive takes content.
+export function formatDirectiveSnippet(name: string, schema: DirectiveSchema): string {
+  const args = schema.arguments
+    .filter(x => x.required)
+    .map((x, i) => ` \${${i + 1}:${x.name}}`);
+  const body = schema.content === undefined ? '' : '\n  $0';
+  return `${name}::${args.join('')}${body}`;
+}
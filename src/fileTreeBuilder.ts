@@ -7,7 +7,7 @@ import Store from './store';
 import { FileTreeNode } from './types';
 import Document from './types/document';
 import Workspace from './types/workspace';
-import { pathToUri, safeCollectionGet, uriToPath } from './util';
+import { getIncludeRoot, pathToUri, safeCollectionGet, uriToPath } from './util';
 
 const log = new Logger('include-tree-builder');
 
@@ -30,13 +30,9 @@ export default class FileTreeBuilder {
   }
 
   processDocument(doc: Document): FileTreeNode {
-    const filepath = uriToPath(doc.uri);
-    const basename = path.basename(filepath);
-    const dirname = path.dirname(filepath);
-    const childRoot = basename === 'index.rst' ?
-      dirname : path.join(dirname, basename.replace(/\.rst$/, ''));
+    const childRoot = getIncludeRoot(doc.uri);
     return {
-      filename: basename,
+      filename: path.basename(uriToPath(doc.uri)),
       children: doc.includes.flatMap(x => {
         if (x.key.includes('*')) {
           const matches = fg.sync(`${x}.rst`, { cwd: childRoot });
@@ -1,7 +1,42 @@
+import path from 'path';
 import * as LSP from 'vscode-languageserver';
+import config from './config';
 import Server from './server';
 import Document from './types/document';
-import { assertDefined } from './util';
+import * as QW from './types/queryWrappers';
+import {
+  assertDefined,
+  editDistance,
+  ensureLeadingSlash,
+  getIncludeRoot,
+  getSentence,
+  getWords,
+  makeUniqueCitekey,
+  pathToUri,
+  rankBySimilarity,
+  tsNodeToLspRange,
+} from './util';
+
+// Maximum number of suggested citekeys offered per broken or missing citekey.
+const MAX_SUGGESTIONS = 5;
+
+// Extensions treated as the same format when comparing media paths.
+const EQUIVALENT_EXTENSIONS: { [ext: string]: string } = {
+  '.jpeg': '.jpg',
+  '.tif': '.tiff',
+  '.htm': '.html',
+};
+
+// Key of reference listing stubs, to be replaced by the user. It is not a
+// valid key, so the stub stays flagged until it is.
+const STUB_KEY = 'TODO';
+
+// Words too common to say anything about which reference a sentence cites.
+const STOPWORDS = new Set([
+  'about', 'also', 'and', 'are', 'but', 'can', 'for', 'from', 'has', 'have',
+  'into', 'its', 'not', 'one', 'our', 'see', 'such', 'that', 'the', 'their',
+  'there', 'these', 'this', 'was', 'were', 'which', 'with',
+]);
 
 export default class Fixer {
 
@@ -13,13 +48,13 @@ export default class Fixer {
 
   get db() { return this.server.db; }
 
-  async getFix(doc: Document, diag: LSP.Diagnostic): Promise<LSP.CodeAction | undefined> {
+  async getFixes(doc: Document, diag: LSP.Diagnostic): Promise<LSP.CodeAction[]> {
     if (diag.code === 'stale-reference-key') {
       const staleKey = doc.textSlice(diag.range);
       const id = staleKey.split('.')[2];
       const realKey = await this.db.getKey(id);
       assertDefined(realKey);
-      return {
+      return [{
         title: 'update reference key',
         kind: 'quickfix',
         diagnostics: [diag],
@@ -34,10 +69,422 @@ export default class Fixer {
             },
           ],
         },
+      }];
+    } else if (diag.code === 'duplicate-reference-citekey' || diag.code === 'duplicate-section-citekey') {
+      const citekey = doc.textSlice(diag.range);
+      const { referencesByCitekey, sectionsByCitekey } = doc.workspace;
+      const existing = new Set([...referencesByCitekey.keys(), ...sectionsByCitekey.keys()]);
+      const newCitekey = makeUniqueCitekey(citekey, existing);
+      return [{
+        title: `rename citekey to ${newCitekey}`,
+        kind: 'quickfix',
+        diagnostics: [diag],
+        edit: {
+          documentChanges: [
+            {
+              textDocument: { uri: doc.uri, version: doc.version },
+              edits: [
+                { range: diag.range, newText: newCitekey },
+              ],
+            },
+          ],
+        },
+      }];
+    } else if (diag.code === 'broken-reference-citation') {
+      const citekeys = [...doc.workspace.referencesByCitekey.keys()];
+      return this.getBrokenCitationFixes(doc, diag, doc.referenceCitations, citekeys);
+    } else if (diag.code === 'broken-section-citation') {
+      const citekeys = [...doc.workspace.sectionsByCitekey.keys()];
+      return this.getBrokenCitationFixes(doc, diag, doc.sectionCitations, citekeys);
+    } else if (diag.code === 'missing-reference-citation') {
+      const cands = [...doc.workspace.referencesByCitekey.entries()].map(([citekey, ref]) => (
+        { citekey, text: [citekey, ref.displayName, ref.annotation].join(' ') }
+      ));
+      return [
+        ...this.getMissingCitationFixes(doc, diag, doc.referenceCitations, cands),
+        ...this.getReferenceStubFixes(doc, diag),
+      ];
+    } else if (diag.code === 'missing-section-citation') {
+      const cands = [...doc.workspace.sectionsByCitekey.entries()].map(([citekey, sec]) => (
+        { citekey, text: `${citekey} ${sec.title}` }
+      ));
+      return this.getMissingCitationFixes(doc, diag, doc.sectionCitations, cands);
+    } else if (diag.code === 'uncited-reference-listing') {
+      return this.getUncitedReferenceListingFixes(doc, diag);
+    } else if (diag.code === 'orphaned-document') {
+      return this.getOrphanedDocumentFixes(doc, diag);
+    } else if (diag.code === 'broken-image-reference') {
+      return this.getBrokenMediaPathFixes(doc, diag, false);
+    } else if (diag.code === 'broken-reference-key' && doc.textSlice(diag.range).startsWith('/')) {
+      return this.getBrokenMediaPathFixes(doc, diag, true);
+    } else if (diag.code === 'broken-include') {
+      return this.getBrokenIncludeFixes(doc, diag);
+    } else {
+      return [];
+    }
+  }
+
+  // ===== BROKEN CITATIONS ===================================================
+
+  // Broken citation diagnostics cover the whole citation, which may hold
+  // several citekeys, so the broken ones are looked up again by position.
+  private getBrokenCitationFixes(
+    doc: Document,
+    diag: LSP.Diagnostic,
+    citations: (QW.ReferenceCitation | QW.SectionCitation)[],
+    citekeys: string[],
+  ): LSP.CodeAction[] {
+    const known = new Set(citekeys);
+    return citations
+      .filter(x => (
+        x.citekey !== '?' && !known.has(x.citekey) &&
+        isEqualRange(tsNodeToLspRange(x.nodes.root), diag.range)
+      ))
+      .flatMap(({ citekey, nodes }) => (
+        rankBySimilarity(citekey, citekeys, MAX_SUGGESTIONS).map((suggestion, i) => ({
+          title: `change citekey to ${suggestion}`,
+          kind: 'quickfix',
+          diagnostics: [diag],
+          isPreferred: i === 0,
+          edit: {
+            documentChanges: [
+              {
+                textDocument: { uri: doc.uri, version: doc.version },
+                edits: [
+                  { range: tsNodeToLspRange(nodes.citekey), newText: suggestion },
+                ],
+              },
+            ],
+          },
+        }))
+      ));
+  }
+
+  // ===== MISSING CITATIONS ==================================================
+
+  // Candidates are ranked by the number of words they share with the sentence
+  // around the `?` placeholder.
+  private getMissingCitationFixes(
+    doc: Document,
+    diag: LSP.Diagnostic,
+    citations: (QW.ReferenceCitation | QW.SectionCitation)[],
+    cands: { citekey: string, text: string }[],
+  ): LSP.CodeAction[] {
+    return this.findPlaceholders(diag, citations).flatMap(({ nodes }) => {
+      const sentence = getSentence(doc.text, nodes.root.startIndex, nodes.root.endIndex);
+      const words = [...getWords(sentence)].filter(x => !STOPWORDS.has(x));
+      return cands
+        .map(({ citekey, text }) => {
+          const candWords = getWords(text);
+          return { citekey, score: words.filter(x => candWords.has(x)).length };
+        })
+        .filter(({ score }) => score > 0)
+        .sort((a, b) => b.score - a.score)
+        .slice(0, MAX_SUGGESTIONS)
+        .map(({ citekey }, i): LSP.CodeAction => ({
+          title: `cite ${citekey}`,
+          kind: 'quickfix',
+          diagnostics: [diag],
+          isPreferred: i === 0,
+          edit: {
+            documentChanges: [
+              {
+                textDocument: { uri: doc.uri, version: doc.version },
+                edits: [
+                  { range: tsNodeToLspRange(nodes.citekey), newText: citekey },
+                ],
+              },
+            ],
+          },
+        }));
+    });
+  }
+
+  // Cites a new reference listing stub, added to the last references block of
+  // the document (or a new one). The stub is modeled on an existing listing so
+  // that it follows the workspace's listing syntax.
+  private getReferenceStubFixes(doc: Document, diag: LSP.Diagnostic): LSP.CodeAction[] {
+    const placeholders = this.findPlaceholders(diag, doc.referenceCitations);
+    const { workspace } = doc;
+    const template = [doc, ...workspace.documents]
+      .flatMap(x => x.referenceListings)
+      .find(x => x.nodes.citekey !== undefined);
+    if (placeholders.length === 0 || template === undefined) return [];
+    const templateDoc = workspace.documents.find(x => x.uri === template.uri);
+    assertDefined(templateDoc);
+    const existing = new Set(workspace.referencesByCitekey.keys());
+    const citekey = makeUniqueCitekey('new-reference', existing);
+    const listing = formatListingStub(templateDoc, template, citekey);
+    const block = doc.referenceBlocks[doc.referenceBlocks.length - 1];
+    const insertion = block === undefined ?
+      LSP.TextEdit.insert(getEndPosition(doc.text), `\n${formatReferenceBlock(listing)}`) :
+      LSP.TextEdit.insert(getLinesRange(tsNodeToLspRange(block.nodes.root)).end, listing);
+    return [{
+      title: `cite new reference listing ${citekey}`,
+      kind: 'quickfix',
+      diagnostics: [diag],
+      edit: {
+        documentChanges: [
+          {
+            textDocument: { uri: doc.uri, version: doc.version },
+            edits: [
+              { range: tsNodeToLspRange(placeholders[0].nodes.citekey), newText: citekey },
+              insertion,
+            ],
+          },
+        ],
+      },
+    }];
+  }
+
+  private findPlaceholders<T extends QW.ReferenceCitation | QW.SectionCitation>(
+    diag: LSP.Diagnostic,
+    citations: T[],
+  ): T[] {
+    return citations.filter(x => (
+      x.citekey === '?' && isEqualRange(tsNodeToLspRange(x.nodes.root), diag.range)
+    ));
+  }
+
+  // ===== UNCITED REFERENCE LISTINGS =========================================
+
+  // The listing can be deleted or moved to the workspace's uncited references
+  // file, which is created if it does not exist and the client supports it.
+  private getUncitedReferenceListingFixes(doc: Document, diag: LSP.Diagnostic): LSP.CodeAction[] {
+    const listingRange = getLinesRange(diag.range);
+    const deletion: LSP.TextDocumentEdit = {
+      textDocument: { uri: doc.uri, version: doc.version },
+      edits: [LSP.TextEdit.del(listingRange)],
+    };
+    const fixes: LSP.CodeAction[] = [{
+      title: 'delete reference listing',
+      kind: 'quickfix',
+      diagnostics: [diag],
+      edit: { documentChanges: [deletion] },
+    }];
+
+    const { workspace } = doc;
+    const targetPath = config.uncitedReferencesFile;
+    const targetUri = workspace.relativePathToDocUri(targetPath);
+    if (targetUri === doc.uri) return fixes;
+    let listing = doc.textSlice(listingRange);
+    if (!listing.endsWith('\n')) listing += '\n';
+    const target = workspace.getDocument(targetPath);
+    let documentChanges: LSP.WorkspaceEdit['documentChanges'];
+    if (target !== undefined) {
+      const block = target.referenceBlocks[target.referenceBlocks.length - 1];
+      const insertion = block === undefined ?
+        LSP.TextEdit.insert(getEndPosition(target.text), `\n${formatReferenceBlock(listing)}`) :
+        LSP.TextEdit.insert(getLinesRange(tsNodeToLspRange(block.nodes.root)).end, listing);
+      documentChanges = [
+        deletion,
+        { textDocument: { uri: target.uri, version: target.version }, edits: [insertion] },
+      ];
+    } else if (this.supportsCreateFile()) {
+      documentChanges = [
+        deletion,
+        LSP.CreateFile.create(targetUri, { ignoreIfExists: true }),
+        {
+          textDocument: { uri: targetUri, version: null },
+          edits: [LSP.TextEdit.insert(LSP.Position.create(0, 0), formatUncitedReferencesFile(listing))],
+        },
+      ];
+    } else {
+      return fixes;
+    }
+    fixes.push({
+      title: `move reference listing to ${targetPath}`,
+      kind: 'quickfix',
+      diagnostics: [diag],
+      edit: { documentChanges },
+    });
+    return fixes;
+  }
+
+  // ===== BROKEN MEDIA PATHS =================================================
+
+  // Image paths are relative to `media/`; media reference keys carry a leading
+  // slash.
+  private getBrokenMediaPathFixes(doc: Document, diag: LSP.Diagnostic, isKey: boolean): LSP.CodeAction[] {
+    const brokenPath = doc.textSlice(diag.range).replace(/^\//, '');
+    // `.media-unit` directories are ranked without their trailing slash, but
+    // inserted with it, as the auditor only accepts exact relative paths.
+    const mediaPaths = new Map(doc.workspace.mediaFiles.map(x => (
+      [x.relativePath.replace(/\/$/, ''), x.relativePath]
+    )));
+    const ranked = rankMediaPaths(brokenPath, [...mediaPaths.keys()], MAX_SUGGESTIONS);
+    return ranked.map((rankedPath, i) => {
+      const mediaPath = mediaPaths.get(rankedPath);
+      assertDefined(mediaPath);
+      const newText = isKey ? ensureLeadingSlash(mediaPath) : mediaPath;
+      return {
+        title: `change path to ${newText}`,
+        kind: 'quickfix',
+        diagnostics: [diag],
+        isPreferred: i === 0,
+        edit: {
+          documentChanges: [
+            {
+              textDocument: { uri: doc.uri, version: doc.version },
+              edits: [
+                { range: diag.range, newText },
+              ],
+            },
+          ],
+        },
       };
+    });
+  }
+
+  // ===== BROKEN INCLUDES ====================================================
+
+  // Creates the missing document, titled after the last segment of the
+  // include key.
+  private getBrokenIncludeFixes(doc: Document, diag: LSP.Diagnostic): LSP.CodeAction[] {
+    if (!this.supportsCreateFile()) return [];
+    const include = doc.includes.find(x => isEqualRange(tsNodeToLspRange(x.nodes.root), diag.range));
+    if (include === undefined || include.key.includes('*')) return [];
+    const uri = pathToUri(path.join(getIncludeRoot(doc.uri), `${include.key}.rst`));
+    const title = formatIncludeTitle(include.key);
+    return [{
+      title: `create ${doc.workspace.docUriToRelativePath(uri)}`,
+      kind: 'quickfix',
+      diagnostics: [diag],
+      isPreferred: true,
+      edit: {
+        documentChanges: [
+          LSP.CreateFile.create(uri, { ignoreIfExists: true }),
+          {
+            textDocument: { uri, version: null },
+            edits: [LSP.TextEdit.insert(LSP.Position.create(0, 0), formatLevel1Header(title))],
+          },
+        ],
+      },
+    }];
+  }
+
+  // ===== ORPHANED DOCUMENTS =================================================
+
+  // The include is added after the last include of the parent, matching its
+  // indentation, or in a new `sections::` block at the end of the parent.
+  private getOrphanedDocumentFixes(doc: Document, diag: LSP.Diagnostic): LSP.CodeAction[] {
+    const includeParent = doc.workspace.getIncludeParent(doc.uri);
+    if (includeParent === undefined) return [];
+    const { parent, key } = includeParent;
+    const lastInclude = parent.includes[parent.includes.length - 1];
+    let insertion: LSP.TextEdit;
+    if (lastInclude === undefined) {
+      // the new block is separated from the text above it by a blank line
+      const trailingNewlines = (parent.text.match(/\n*$/) as RegExpMatchArray)[0].length;
+      const separator = parent.text === '' ? '' : '\n'.repeat(Math.max(0, 2 - trailingNewlines));
+      insertion = LSP.TextEdit.insert(
+        getEndPosition(parent.text), `${separator}sections::\n\n  include:: ${key}\n`,
+      );
     } else {
-      return undefined;
+      const { start } = tsNodeToLspRange(lastInclude.nodes.root);
+      const line = parent.text.split('\n')[start.line];
+      const indent = line.slice(0, line.length - line.trimStart().length);
+      insertion = LSP.TextEdit.insert(
+        LSP.Position.create(start.line + 1, 0), `${indent}include:: ${key}\n`,
+      );
     }
+    const parentPath = doc.workspace.docUriToRelativePath(parent.uri);
+    return [{
+      title: `include document from ${parentPath}`,
+      kind: 'quickfix',
+      diagnostics: [diag],
+      isPreferred: true,
+      edit: {
+        documentChanges: [
+          { textDocument: { uri: parent.uri, version: parent.version }, edits: [insertion] },
+        ],
+      },
+    }];
+  }
+
+  // **************************************************************************
+  // ****** UTILITIES *********************************************************
+
+  private supportsCreateFile(): boolean {
+    const { resourceOperations } = this.server.clientCapabilities.workspace?.workspaceEdit ?? {};
+    return resourceOperations?.includes(LSP.ResourceOperationKind.Create) ?? false;
   }
 
 }
+
+// ****************************************************************************
+// ****** UTILITIES ***********************************************************
+
+// The full lines spanned by a range, including the final line break.
+function getLinesRange({ start, end }: LSP.Range): LSP.Range {
+  const endLine = (end.character === 0 && end.line > start.line) ? end.line : end.line + 1;
+  return LSP.Range.create(start.line, 0, endLine, 0);
+}
+
+// Candidates are ranked by the case-insensitive edit distance between their
+// base names, ignoring extensions. A changed extension costs half an edit
+// unless the extensions are equivalent, and a changed directory costs a tenth
+// of an edit, so that moved files rank close behind renamed ones.
+function rankMediaPaths(target: string, cands: string[], limit: number): string[] {
+  const split = (p: string) => {
+    const ext = path.extname(p).toLowerCase();
+    return {
+      dir: path.dirname(p).toLowerCase(),
+      stem: path.basename(p, path.extname(p)).toLowerCase(),
+      ext: EQUIVALENT_EXTENSIONS[ext] ?? ext,
+    };
+  };
+  const t = split(target);
+  const maxDistance = Math.max(2, Math.ceil(t.stem.length / 3));
+  return cands
+    .map(x => {
+      const c = split(x);
+      const distance = editDistance(t.stem, c.stem);
+      const score = distance + (t.ext === c.ext ? 0 : 0.5) + (t.dir === c.dir ? 0 : 0.1);
+      return { x, distance, score };
+    })
+    .filter(({ x, distance }) => distance <= maxDistance && x !== target)
+    .sort((a, b) => a.score - b.score)
+    .slice(0, limit)
+    .map(({ x }) => x);
+}
+
+function isEqualRange(a: LSP.Range, b: LSP.Range): boolean {
+  return a.start.line === b.start.line && a.start.character === b.start.character &&
+    a.end.line === b.end.line && a.end.character === b.end.character;
+}
+
+function getEndPosition(text: string): LSP.Position {
+  const lines = text.split('\n');
+  return LSP.Position.create(lines.length - 1, lines[lines.length - 1].length);
+}
+
+// The template's header line with its citekey replaced, and its display name
+// and key replaced by the stub key.
+function formatListingStub(templateDoc: Document, template: QW.Reference, citekey: string): string {
+  const { text } = templateDoc;
+  const { nodes } = template;
+  assertDefined(nodes.citekey);
+  const lineStart = text.lastIndexOf('\n', nodes.citekey.startIndex - 1) + 1;
+  const keyStart = (nodes.displayName?.parent ?? nodes.key).startIndex;
+  return text.slice(lineStart, nodes.citekey.startIndex) + citekey +
+    text.slice(nodes.citekey.endIndex, keyStart) + STUB_KEY + '\n';
+}
+
+function formatReferenceBlock(listings: string): string {
+  return `references::\n\n${listings}`;
+}
+
+function formatLevel1Header(title: string): string {
+  return `${title}\n${'='.repeat(title.length)}\n`;
+}
+
+function formatUncitedReferencesFile(listings: string): string {
+  return `${formatLevel1Header('Uncited References')}\n${formatReferenceBlock(listings)}`;
+}
+
+// e.g. `history/early-years` -> `Early years`
+function formatIncludeTitle(key: string): string {
+  const words = path.basename(key).replace(/[-_]+/g, ' ').trim();
+  return words.charAt(0).toUpperCase() + words.slice(1);
+}
@@ -0,0 +1,49 @@
+import { SyntaxNode } from 'tree-sitter';
+import * as LSP from 'vscode-languageserver';
+import Logger from './logger';
+import Server from './server';
+import Document from './types/document';
+
+const log = new Logger('folding-range-provider');
+
+// Reference blocks are reported with the `imports` kind, which is the kind
+// clients know how to fold by default (e.g. `editor.foldingImportsByDefault`).
+const FOLDING_KINDS: { [nodeType: string]: LSP.FoldingRangeKind } = {
+  section_1: LSP.FoldingRangeKind.Region,
+  section_2: LSP.FoldingRangeKind.Region,
+  section_3: LSP.FoldingRangeKind.Region,
+  section_4: LSP.FoldingRangeKind.Region,
+  section_5: LSP.FoldingRangeKind.Region,
+  directive: LSP.FoldingRangeKind.Region,
+  image_carousel: LSP.FoldingRangeKind.Region,
+  references: LSP.FoldingRangeKind.Imports,
+};
+
+export default class FoldingRangeProvider {
+
+  private server: Server;
+
+  constructor(server: Server) {
+    this.server = server;
+  }
+
+  public getFoldingRanges(doc: Document): LSP.FoldingRange[] {
+    const nodes = doc.tree.rootNode.descendantsOfType(Object.keys(FOLDING_KINDS));
+    const ranges = nodes
+      .map(node => this.makeFoldingRange(node))
+      .filter((x): x is LSP.FoldingRange => x !== undefined);
+    log.info(`Found ${ranges.length} folding ranges for ${doc}`);
+    return ranges;
+  }
+
+  // Nodes usually end at the start of the line after their last line, which
+  // should not be folded. Single-line nodes are not foldable.
+  private makeFoldingRange(node: SyntaxNode): LSP.FoldingRange | undefined {
+    const startLine = node.startPosition.row;
+    const endLine = node.endPosition.column === 0 ?
+      node.endPosition.row - 1 : node.endPosition.row;
+    if (endLine <= startLine) return undefined;
+    return { startLine, endLine, kind: FOLDING_KINDS[node.type] };
+  }
+
+}
@@ -0,0 +1,274 @@
+import { SyntaxNode } from 'tree-sitter';
+import * as LSP from 'vscode-languageserver';
+import Logger from './logger';
+import Server from './server';
+import { TreeSitterTextDocument } from './textDocument';
+import Document from './types/document';
+import Workspace from './types/workspace';
+import { groupBy } from './util';
+
+const log = new Logger('formatter');
+
+// ****************************************************************************
+// ****** TYPES ***************************************************************
+
+// Formatting is computed against the document's lines. Rows are indices into
+// the original lines; insertions add a blank line before the given row.
+type LineChanges = {
+  replaced: Map<number, string>,
+  deleted: Set<number>,
+  inserted: Set<number>,
+};
+
+const ADORNMENT_PATTERN = /^([^a-zA-Z0-9\s])\1+$/;
+
+const BLOCK_TYPES = ['directive', 'references'];
+
+// Indentation of directive bodies relative to the directive, e.g.
+//
+//   note:: Title
+//     Body of the note.
+const DIRECTIVE_BODY_INDENT = 2;
+
+const RULES = ['headers', 'directive-indentation', 'blank-lines'] as const;
+
+type Rule = typeof RULES[number];
+
+// ****************************************************************************
+// ****** MAIN ****************************************************************
+
+export default class Formatter {
+
+  private server: Server;
+
+  constructor(server: Server) {
+    this.server = server;
+  }
+
+  // Formatting only touches whitespace and section adornments. As a safeguard,
+  // the formatted text is reparsed and its tree compared against the original;
+  // if they differ in anything but whitespace and adornments, no edits are
+  // returned.
+  public format(doc: Document, range?: LSP.Range): LSP.TextEdit[] {
+    if (doc.tree.rootNode.hasError()) {
+      log.info(`Skipping formatting of ${doc}: document has syntax errors`);
+      return [];
+    }
+    const lines = doc.text.split(/\r?\n/);
+    const scope = (changes: LineChanges) => (
+      range === undefined ? changes : restrictChanges(changes, range)
+    );
+    const scoped = scope(this.computeChanges(doc, lines, RULES));
+    if (!this.preservesTree(doc, lines, scoped)) {
+      const culprits = RULES.filter(rule => (
+        !this.preservesTree(doc, lines, scope(this.computeChanges(doc, lines, [rule])))
+      ));
+      log.warn(`Discarding formatting of ${doc}: edits would change the parse tree ` +
+        `(rules: ${culprits.length > 0 ? culprits.join(', ') : 'combination of rules'})`);
+      return [];
+    }
+    const edits = toTextEdits(lines, scoped);
+    log.info(`Computed ${edits.length} formatting edits for ${doc}`);
+    return edits;
+  }
+
+  // **************************************************************************
+  // ****** RULES *************************************************************
+
+  private preservesTree(doc: Document, lines: string[], changes: LineChanges): boolean {
+    const formatted = applyChanges(lines, changes);
+    const { tree } = TreeSitterTextDocument.create(doc.uri, 'memexwiki', 0, formatted);
+    return getSignature(tree.rootNode) === getSignature(doc.tree.rootNode);
+  }
+
+  private computeChanges(doc: Document, lines: string[], rules: readonly Rule[]): LineChanges {
+    const newLines = [...lines];
+    if (rules.includes('headers')) this.normalizeHeaders(doc, lines, newLines);
+    if (rules.includes('directive-indentation')) this.normalizeDirectiveIndentation(doc, lines, newLines);
+    const changes: LineChanges = {
+      replaced: new Map<number, string>(),
+      deleted: new Set<number>(),
+      inserted: new Set<number>(),
+    };
+    newLines.forEach((line, row) => {
+      if (line !== lines[row]) changes.replaced.set(row, line);
+    });
+    if (rules.includes('blank-lines')) this.normalizeBlankLines(doc, lines, changes);
+    return changes;
+  }
+
+  // ===== HEADERS ============================================================
+
+  // Adornment lines are resized to the width of the title line and use the
+  // adornment character most common for the section level in the workspace.
+  private normalizeHeaders(doc: Document, lines: string[], newLines: string[]) {
+    const adornments = getWorkspaceAdornments(doc.workspace);
+    doc.sections.forEach(({ nodes }) => {
+      const level = parseInt(nodes.root.type.substr(-1), 10);
+      const titleRow = nodes.title.startPosition.row;
+      const width = lines[titleRow].trimEnd().length;
+      getRows(nodes.header).forEach(row => {
+        const line = lines[row].trimEnd();
+        if (row !== titleRow && ADORNMENT_PATTERN.test(line)) {
+          const char = adornments.get(level) ?? line[0];
+          newLines[row] = char.repeat(width);
+        }
+      });
+    });
+  }
+
+  // ===== DIRECTIVE INDENTATION ==============================================
+
+  // Directive bodies (options and content) are indented by
+  // DIRECTIVE_BODY_INDENT relative to the directive, preserving relative
+  // indentation within the body. Directives are visited outermost first, so
+  // nested bodies are aligned against their parent's already-shifted position.
+  private normalizeDirectiveIndentation(doc: Document, lines: string[], newLines: string[]) {
+    const shifts = new Array<number>(lines.length).fill(0);
+    doc.tree.rootNode.descendantsOfType('directive').forEach(node => {
+      const type = node.namedChildren.find(x => x.type === 'directive_type');
+      if (type === undefined) return;
+      const typeRow = type.startPosition.row;
+      const target = getIndent(lines[typeRow]) + shifts[typeRow] + DIRECTIVE_BODY_INDENT;
+      const bodyRows = getRows(node)
+        .filter(row => row > typeRow && !isBlank(lines[row]));
+      if (bodyRows.length === 0) return;
+      const current = Math.min(...bodyRows.map(row => getIndent(lines[row]) + shifts[row]));
+      bodyRows.forEach(row => {
+        shifts[row] += target - current;
+      });
+    });
+    shifts.forEach((shift, row) => {
+      if (shift !== 0) {
+        const line = lines[row];
+        const indent = Math.max(getIndent(line) + shift, 0);
+        newLines[row] = ' '.repeat(indent) + line.trimStart();
+      }
+    });
+  }
+
+  // ===== BLANK LINES ========================================================
+
+  // Directives and reference blocks are separated from surrounding content by
+  // exactly one blank line.
+  private normalizeBlankLines(doc: Document, lines: string[], changes: LineChanges) {
+    doc.tree.rootNode.descendantsOfType(BLOCK_TYPES).forEach(node => {
+      const rows = getRows(node).filter(row => !isBlank(lines[row]));
+      if (rows.length === 0) return;
+      const first = rows[0];
+      const last = rows[rows.length - 1];
+
+      let prev = first - 1;
+      while (prev >= 0 && isBlank(lines[prev])) prev -= 1;
+      if (prev >= 0) this.normalizeBlankRun(prev, first, changes);
+
+      let next = last + 1;
+      while (next < lines.length && isBlank(lines[next])) next += 1;
+      if (next < lines.length) this.normalizeBlankRun(last, next, changes);
+    });
+  }
+
+  // Normalize the blank rows strictly between two non-blank rows.
+  private normalizeBlankRun(before: number, after: number, changes: LineChanges) {
+    if (after - before === 1) {
+      changes.inserted.add(after);
+    } else {
+      for (let row = before + 2; row < after; row++) {
+        changes.deleted.add(row);
+      }
+    }
+  }
+
+}
+
+// ****************************************************************************
+// ****** UTILITIES ***********************************************************
+
+// The most common adornment character of each section level in the workspace.
+function getWorkspaceAdornments(ws: Workspace): Map<number, string> {
+  const observed = ws.documents.flatMap(doc => {
+    const lines = doc.text.split(/\r?\n/);
+    return doc.sections.flatMap(({ nodes }) => {
+      const level = parseInt(nodes.root.type.substr(-1), 10);
+      const underline = lines[nodes.title.startPosition.row + 1]?.trimEnd() ?? '';
+      return ADORNMENT_PATTERN.test(underline) ? [{ level, char: underline[0] }] : [];
+    });
+  });
+  const result = new Map<number, string>();
+  groupBy(observed, x => x.level).forEach((items, level) => {
+    const counts = groupBy(items, x => x.char);
+    const [char] = [...counts.entries()].reduce((best, entry) => (
+      entry[1].length > best[1].length ? entry : best
+    ));
+    result.set(level, char);
+  });
+  return result;
+}
+
+// Rows spanned by a node, excluding a final row the node only reaches at
+// column 0 (i.e. its trailing newline).
+function getRows(node: SyntaxNode): number[] {
+  const start = node.startPosition.row;
+  const end = (node.endPosition.column === 0 && node.endPosition.row > start) ?
+    node.endPosition.row - 1 : node.endPosition.row;
+  return [...Array(end - start + 1).keys()].map(i => start + i);
+}
+
+function getIndent(line: string): number {
+  return line.length - line.trimStart().length;
+}
+
+function isBlank(line: string | undefined): boolean {
+  return line === undefined || /^\s*$/.test(line);
+}
+
+// Collapse whitespace and erase adornments, so that trees differing only in
+// what the formatter changes produce the same signature.
+function getSignature(node: SyntaxNode): string {
+  if (node.namedChildCount === 0) {
+    const text = node.text.replace(/\s+/g, ' ').trim();
+    return ADORNMENT_PATTERN.test(text) ? node.type : `${node.type}:${text}`;
+  } else {
+    return `(${node.type} ${node.namedChildren.map(getSignature).join(' ')})`;
+  }
+}
+
+function restrictChanges(changes: LineChanges, range: LSP.Range): LineChanges {
+  const inRange = (row: number) => row >= range.start.line && row <= range.end.line;
+  return {
+    replaced: new Map([...changes.replaced].filter(([row]) => inRange(row))),
+    deleted: new Set([...changes.deleted].filter(inRange)),
+    inserted: new Set([...changes.inserted].filter(inRange)),
+  };
+}
+
+function applyChanges(lines: string[], changes: LineChanges): string {
+  const result: string[] = [];
+  lines.forEach((line, row) => {
+    if (changes.inserted.has(row)) result.push('');
+    if (!changes.deleted.has(row)) result.push(changes.replaced.get(row) ?? line);
+  });
+  return result.join('\n');
+}
+
+// Inserted blank lines are folded into the replacement of their row where
+// there is one, since an insertion and a replacement at the same position
+// would overlap.
+function toTextEdits(lines: string[], changes: LineChanges): LSP.TextEdit[] {
+  const edits: LSP.TextEdit[] = [];
+  changes.replaced.forEach((newText, row) => {
+    const prefix = changes.inserted.has(row) ? '\n' : '';
+    edits.push(LSP.TextEdit.replace(
+      LSP.Range.create(row, 0, row, lines[row].length), prefix + newText,
+    ));
+  });
+  changes.deleted.forEach(row => {
+    edits.push(LSP.TextEdit.del(LSP.Range.create(row, 0, row + 1, 0)));
+  });
+  changes.inserted.forEach(row => {
+    if (!changes.replaced.has(row)) {
+      edits.push(LSP.TextEdit.insert(LSP.Position.create(row, 0), '\n'));
+    }
+  });
+  return edits;
+}
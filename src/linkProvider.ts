@@ -0,0 +1,103 @@
+import fs from 'fs';
+import path from 'path';
+import { SyntaxNode } from 'tree-sitter';
+import * as LSP from 'vscode-languageserver';
+import Logger from './logger';
+import Server from './server';
+import { FURI } from './types';
+import Document from './types/document';
+import {
+  getIncludeRoot,
+  pathToUri,
+  safeCollectionGet,
+  tsNodeToLspRange,
+} from './util';
+
+const log = new Logger('link-provider');
+
+// Stored on unresolved links and read back in `documentLink/resolve`.
+type LinkData = {
+  uri: FURI,
+  type: 'include' | 'media',
+  key: string,
+};
+
+export default class LinkProvider {
+
+  private server: Server;
+
+  constructor(server: Server) {
+    this.server = server;
+  }
+
+  get store() { return this.server.store; }
+
+  // Include and media targets require filesystem access, so they are left
+  // unresolved here and filled in by `resolve`. Web targets are known upfront.
+  public getLinks(doc: Document): LSP.DocumentLink[] {
+    const links = [
+      ...this.getIncludeLinks(doc),
+      ...this.getImageLinks(doc),
+      ...this.getReferenceKeyLinks(doc),
+    ];
+    log.info(`Found ${links.length} document links for ${doc}`);
+    return links;
+  }
+
+  // Web links are returned with their target and no data, and need no
+  // resolving.
+  public resolve(link: LSP.DocumentLink): LSP.DocumentLink {
+    if (link.data === undefined) return link;
+    const { uri, type, key } = link.data as LinkData;
+    if (type === 'include') {
+      const targetPath = path.join(getIncludeRoot(uri), `${key}.rst`);
+      if (fs.existsSync(targetPath)) link.target = pathToUri(targetPath);
+    } else if (type === 'media') {
+      const doc = safeCollectionGet(this.store.documents, 'uri', uri);
+      const mediaFile = doc.workspace.getMediaFile(key);
+      if (mediaFile !== undefined) link.target = pathToUri(mediaFile.absolutePath);
+    }
+    return link;
+  }
+
+  // **************************************************************************
+  // ****** LINKS *************************************************************
+
+  private getIncludeLinks(doc: Document): LSP.DocumentLink[] {
+    return doc.includes
+      .filter(({ key }) => !key.includes('*'))  // skip globs
+      .map(({ key, nodes }) => this.makeLink(doc, nodes.key, 'include', key));
+  }
+
+  private getImageLinks(doc: Document): LSP.DocumentLink[] {
+    return doc.imageReferences.map(({ root, nodes }) => (
+      this.makeLink(doc, nodes.root, 'media', root)
+    ));
+  }
+
+  private getReferenceKeyLinks(doc: Document): LSP.DocumentLink[] {
+    return doc.referenceListings.flatMap(ref => {
+      if (ref.type === 'media') {
+        return [this.makeLink(doc, ref.nodes.key, 'media', ref.key)];
+      } else if (ref.type === 'web') {
+        return [{ range: tsNodeToLspRange(ref.nodes.key), target: ref.key }];
+      } else {
+        return [];
+      }
+    });
+  }
+
+  // **************************************************************************
+  // ****** UTILITIES *********************************************************
+
+  private makeLink(
+    doc: Document,
+    node: SyntaxNode,
+    type: LinkData['type'],
+    key: string,
+  ): LSP.DocumentLink {
+    const data: LinkData = { uri: doc.uri, type, key };
+    return { range: tsNodeToLspRange(node), data };
+  }
+
+}
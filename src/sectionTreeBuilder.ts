@@ -92,7 +92,7 @@ export default class SectionTreeBuilder {
         fg.sync([wsRelPath], { cwd: uriToPath(this.workspace.uri) }) :
         [wsRelPath];
       paths.map(ip => this.workspace.getDocument(ip))
-        .filter((d): d is Document => d !== undefined)
+        .filter((d): d is Document => d !== undefined && d.topSection !== undefined)
         .forEach(d => {
           result.push(this.processDocument(d, [...numPath, result.length + 1]));
         });
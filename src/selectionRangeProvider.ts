@@ -0,0 +1,42 @@
+import { SyntaxNode } from 'tree-sitter';
+import * as LSP from 'vscode-languageserver';
+import Logger from './logger';
+import Server from './server';
+import Document from './types/document';
+import { equalPositions, tsNodeToLspRange } from './util';
+
+const log = new Logger('selection-range-provider');
+
+export default class SelectionRangeProvider {
+
+  private server: Server;
+
+  constructor(server: Server) {
+    this.server = server;
+  }
+
+  public getSelectionRanges(doc: Document, positions: LSP.Position[]): LSP.SelectionRange[] {
+    log.info(`Computing ${positions.length} selection ranges for ${doc}`);
+    return positions.map(position => this.getSelectionRange(doc, position));
+  }
+
+  // Walks from the innermost named node at the position up through its
+  // ancestors, e.g. citekey -> cite -> paragraph -> section body -> section.
+  // Ancestors spanning the same text as their child add no expansion step and
+  // are skipped.
+  private getSelectionRange(doc: Document, position: LSP.Position): LSP.SelectionRange {
+    const index = doc.indexAt(position);
+    const chain: SyntaxNode[] = [];
+    let node: SyntaxNode | null = doc.tree.rootNode.namedDescendantForIndex(index);
+    while (node !== null) {
+      if (chain.length === 0 || !equalPositions(chain[chain.length - 1], node)) {
+        chain.push(node);
+      }
+      node = node.parent;
+    }
+    return chain.reduceRight<LSP.SelectionRange | undefined>((parent, inode) => (
+      { range: tsNodeToLspRange(inode), parent }
+    ), undefined) ?? { range: { start: position, end: position } };
+  }
+
+}
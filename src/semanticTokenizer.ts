@@ -0,0 +1,176 @@
+import { SyntaxNode } from 'tree-sitter';
+import * as LSP from 'vscode-languageserver';
+import Logger from './logger';
+import Server from './server';
+import { FURI, ReferenceType } from './types';
+import Document from './types/document';
+import { safeGet } from './util';
+
+const log = new Logger('semantic-tokenizer');
+
+// ****************************************************************************
+// ****** LEGEND **************************************************************
+
+// Standard token types are used so that stock themes color memexwiki tokens
+// without any client-side configuration.
+const TOKEN_TYPES = [
+  'keyword',  // roles
+  'variable',  // citekeys
+  'string',  // reference keys
+  'macro',  // directive types
+  'namespace',  // header titles
+] as const;
+
+const TOKEN_MODIFIERS = [
+  'declaration',
+  'cite',
+  'sec',
+  'broken',
+  'record',
+  'web',
+  'media',
+  'mail',
+  'unknown',
+  'level1',
+  'level2',
+  'level3',
+  'level4',
+  'level5',
+] as const;
+
+type TokenType = typeof TOKEN_TYPES[number];
+
+type TokenModifier = typeof TOKEN_MODIFIERS[number];
+
+// The tables used to resolve citekeys and reference keys while walking a
+// document's tree.
+type TokenizerContext = {
+  doc: Document,
+  referenceTypes: Map<number, ReferenceType>,
+};
+
+export default class SemanticTokenizer {
+
+  static legend: LSP.SemanticTokensLegend = {
+    tokenTypes: [...TOKEN_TYPES],
+    tokenModifiers: [...TOKEN_MODIFIERS],
+  };
+
+  private server: Server;
+  private builders: Map<FURI, LSP.SemanticTokensBuilder>;
+
+  constructor(server: Server) {
+    this.server = server;
+    this.builders = new Map<FURI, LSP.SemanticTokensBuilder>();
+  }
+
+  // **************************************************************************
+  // ****** MAIN **************************************************************
+
+  // A full request starts from a fresh builder, as `build()` does not clear
+  // the tokens pushed for an earlier result.
+  public tokenize(doc: Document): LSP.SemanticTokens {
+    const builder = new LSP.SemanticTokensBuilder();
+    this.builders.set(doc.uri, builder);
+    this.pushTokens(builder, doc);
+    return builder.build();
+  }
+
+  public tokenizeDelta(
+    doc: Document,
+    previousResultId: string,
+  ): LSP.SemanticTokens | LSP.SemanticTokensDelta {
+    const builder = this.getBuilder(doc.uri);
+    builder.previousResult(previousResultId);
+    this.pushTokens(builder, doc);
+    return builder.buildEdits();
+  }
+
+  public release(uri: FURI) {
+    this.builders.delete(uri);
+  }
+
+  // **************************************************************************
+  // ****** TREE WALK *********************************************************
+
+  private pushTokens(builder: LSP.SemanticTokensBuilder, doc: Document) {
+    const referenceTypes = new Map<number, ReferenceType>();
+    doc.referenceListings.forEach(ref => {
+      referenceTypes.set(ref.nodes.key.startIndex, ref.type);
+    });
+    let count = 0;
+    const push = (node: SyntaxNode, length: number, type: TokenType, modifiers: TokenModifier[]) => {
+      const { row, column } = node.startPosition;
+      builder.push(row, column, length, TOKEN_TYPES.indexOf(type), encodeModifiers(modifiers));
+      count += 1;
+    };
+    // pre-order traversal emits tokens in document order, as the builder requires
+    const visit = (node: SyntaxNode) => {
+      this.classify(node, { doc, referenceTypes }, push);
+      node.namedChildren.forEach(visit);
+    };
+    visit(doc.tree.rootNode);
+    log.info(`Pushed ${count} semantic tokens for ${doc}`);
+  }
+
+  private classify(
+    node: SyntaxNode,
+    context: TokenizerContext,
+    push: (node: SyntaxNode, length: number, type: TokenType, modifiers: TokenModifier[]) => void,
+  ) {
+    const { type, parent, text } = node;
+    const isSingleLine = node.startPosition.row === node.endPosition.row;
+    const length = node.endPosition.column - node.startPosition.column;
+
+    // role, e.g. `:cite:` in :cite:`foo`
+    if (type === 'cite' || type === 'sec') {
+      const roleLength = text.indexOf('`');
+      if (roleLength > 0) push(node, roleLength, 'keyword', [type]);
+
+    // citekey in a citation, section header, or reference listing
+    } else if (type === 'citekey' && isSingleLine && parent !== null) {
+      const { workspace } = context.doc;
+      if (parent.type === 'cite') {
+        const broken = text !== '?' && !workspace.referencesByCitekey.has(text);
+        push(node, length, 'variable', broken ? ['cite', 'broken'] : ['cite']);
+      } else if (parent.type === 'sec') {
+        const broken = text !== '?' && !workspace.sectionsByCitekey.has(text);
+        push(node, length, 'variable', broken ? ['sec', 'broken'] : ['sec']);
+      } else if (parent.type === 'reference_header') {
+        push(node, length, 'variable', ['cite', 'declaration']);
+      } else if (/^header_\d$/.test(parent.type)) {
+        push(node, length, 'variable', ['sec', 'declaration']);
+      }
+
+    // reference key, classified by `Reference.type`
+    } else if (type === 'reference_key' && isSingleLine) {
+      const refType = context.referenceTypes.get(node.startIndex) ?? 'unknown';
+      push(node, length, 'string', [refType]);
+
+    // directive type, without the trailing `::`
+    } else if (type === 'directive_type' && isSingleLine) {
+      push(node, Math.max(length - 2, 0), 'macro', []);
+
+    // header title, by level
+    } else if (type === 'header_title' && isSingleLine && parent !== null) {
+      const m = parent.type.match(/^header_(\d)$/);
+      if (m !== null) push(node, length, 'namespace', [`level${m[1]}` as TokenModifier]);
+    }
+  }
+
+  // **************************************************************************
+  // ****** UTILITIES *********************************************************
+
+  private getBuilder(uri: FURI): LSP.SemanticTokensBuilder {
+    if (!this.builders.has(uri)) {
+      this.builders.set(uri, new LSP.SemanticTokensBuilder());
+    }
+    return safeGet(this.builders, uri);
+  }
+
+}
+
+// Modifiers are encoded as a bit set indexed by the legend.
+function encodeModifiers(modifiers: TokenModifier[]): number {
+  return [...new Set(modifiers)].reduce((acc, m) => acc + 2 ** TOKEN_MODIFIERS.indexOf(m), 0);
+}
@@ -3,14 +3,21 @@ import { Subject } from 'rxjs';
 import { debounceTime } from 'rxjs/operators';
 import * as LSP from 'vscode-languageserver';
 import Annotater from './annotater';
+import CallHierarchyProvider from './callHierarchyProvider';
 import CodeLensAnnotater from './codeLensAnnotater';
 import Completer from './completer';
 import DefinitionResolver from './definitionResolver';
 import config from './config';
 import DB from './db';
 import Fixer from './fixer';
+import FoldingRangeProvider from './foldingRangeProvider';
+import Formatter from './formatter';
+import LinkProvider from './linkProvider';
 import Logger from './logger';
+import SelectionRangeProvider from './selectionRangeProvider';
+import SemanticTokenizer from './semanticTokenizer';
 import Store from './store';
+import SymbolProvider from './symbolProvider';
 import TaskManager from './taskManager';
 import { TreeSitterTextDocument } from './textDocument';
 import {
@@ -24,21 +31,31 @@ import {
   AuditResponse,
   FileTreeRequest,
   FileTreeResponse,
+  GetCitationsArguments,
+  GetCitationsResponse,
   GetImageReferencesRequest,
   GetImageReferencesResponse,
   GetReferencesRequest,
   GetReferencesResponse,
+  MoveMediaToTrashArguments,
+  MoveMediaToTrashResponse,
+  OrphansRequest,
+  OrphansResponse,
   OutlineRequest,
   OutlineResponse,
   ParseRequest,
   ParseResponse,
+  UnusedMediaRequest,
+  UnusedMediaResponse,
 } from './types/customServices';
 import Document, { DocumentRef, DocumentState } from './types/document';
-import { Reference } from './types/queryWrappers';
+import * as QW from './types/queryWrappers';
 import Workspace, { WorkspaceRef } from './types/workspace';
 import {
   adjustSymbolNewName,
   assertDefined,
+  formatHeaderCitekey,
+  getPathSize,
   getSymbol,
   groupBy,
   rangeIntersection,
@@ -60,16 +77,25 @@ export default class Server {
   public db: DB;
   public store: Store;
   private annotater: Annotater;
+  private callHierarchyProvider: CallHierarchyProvider;
   private completer: Completer;
   private connection: LSP.Connection;
   private definitionResolver: DefinitionResolver;
   private taskManager: TaskManager;
   private codeLensAnnotater: CodeLensAnnotater;
   private fixer: Fixer;
+  private foldingRangeProvider: FoldingRangeProvider;
+  private formatter: Formatter;
+  private linkProvider: LinkProvider;
+  private selectionRangeProvider: SelectionRangeProvider;
+  private semanticTokenizer: SemanticTokenizer;
+  private symbolProvider: SymbolProvider;
   private debouncers: Map<FURI, Subject<undefined>>;
+  public clientCapabilities: LSP.ClientCapabilities;
   public capabilities: LSP.ServerCapabilities;
 
   public static capabilities: LSP.ServerCapabilities = {
+    callHierarchyProvider: true,
     codeActionProvider: true,
     codeLensProvider: {
       resolveProvider: false,
@@ -78,13 +104,33 @@ export default class Server {
       triggerCharacters: ['`', ':', '/'],
       resolveProvider: true,
     },
+    declarationProvider: true,
     definitionProvider: true,
+    executeCommandProvider: {
+      commands: ['addSectionCitekey', 'getCitations', 'moveMediaToTrash', 'reparse'],
+    },
+    documentFormattingProvider: true,
+    documentLinkProvider: {
+      resolveProvider: true,
+    },
+    documentRangeFormattingProvider: true,
+    documentSymbolProvider: true,
+    foldingRangeProvider: true,
     hoverProvider: true,
     renameProvider: {
       prepareProvider: true,
     },
     referencesProvider: true,
+    selectionRangeProvider: true,
+    semanticTokensProvider: {
+      legend: SemanticTokenizer.legend,
+      full: { delta: true },
+    },
+    signatureHelpProvider: {
+      triggerCharacters: [' '],
+    },
     textDocumentSync: LSP.TextDocumentSyncKind.Incremental,
+    workspaceSymbolProvider: true,
   }
 
   constructor(
@@ -92,13 +138,21 @@ export default class Server {
     params: LSP.InitializeParams,
   ) {
     this.connection = connection;
+    this.clientCapabilities = params.capabilities;
     this.capabilities = this.getCapabilities(params);
     this.store = new Store(this);
     this.db = new DB(this);
     this.annotater = new Annotater(this);
+    this.callHierarchyProvider = new CallHierarchyProvider(this);
     this.completer = new Completer(this);
     this.fixer = new Fixer(this);
+    this.foldingRangeProvider = new FoldingRangeProvider(this);
+    this.formatter = new Formatter(this);
+    this.linkProvider = new LinkProvider(this);
     this.definitionResolver = new DefinitionResolver(this);
+    this.selectionRangeProvider = new SelectionRangeProvider(this);
+    this.semanticTokenizer = new SemanticTokenizer(this);
+    this.symbolProvider = new SymbolProvider(this);
     this.codeLensAnnotater = new CodeLensAnnotater(this);
     this.taskManager = new TaskManager(this);
     this.debouncers = new Map<FURI, Subject<undefined>>();
@@ -109,16 +163,32 @@ export default class Server {
     this.connection.onCodeAction(this.onCodeAction.bind(this));
     this.connection.onCodeLens(this.onCodeLens.bind(this));
     this.connection.onCompletion(this.onCompletion.bind(this));
+    this.connection.onCompletionResolve(this.onCompletionResolve.bind(this));
+    this.connection.onDeclaration(this.onDeclaration.bind(this));
     this.connection.onDefinition(this.onDefinition.bind(this));
+    this.connection.onDocumentFormatting(this.onDocumentFormatting.bind(this));
+    this.connection.onDocumentRangeFormatting(this.onDocumentRangeFormatting.bind(this));
+    this.connection.onDocumentLinks(this.onDocumentLinks.bind(this));
+    this.connection.onDocumentLinkResolve(this.onDocumentLinkResolve.bind(this));
+    this.connection.onDocumentSymbol(this.onDocumentSymbol.bind(this));
     this.connection.onDidChangeConfiguration(this.onDidChangeConfiguration.bind(this));
     this.connection.onDidOpenTextDocument(this.onDidOpenTextDocument.bind(this));
     this.connection.onDidCloseTextDocument(this.onDidCloseTextDocument.bind(this));
     this.connection.onDidChangeTextDocument(this.onDidChangeTextDocument.bind(this));
     this.connection.onExecuteCommand(this.onExecuteCommand.bind(this));
+    this.connection.onFoldingRanges(this.onFoldingRanges.bind(this));
     this.connection.onHover(this.onHover.bind(this));
     this.connection.onPrepareRename(this.onPrepareRename.bind(this));
     this.connection.onRenameRequest(this.onRename.bind(this));
     this.connection.onReferences(this.onReferences.bind(this));
+    this.connection.onSelectionRanges(this.onSelectionRanges.bind(this));
+    this.connection.onSignatureHelp(this.onSignatureHelp.bind(this));
+    this.connection.onWorkspaceSymbol(this.onWorkspaceSymbol.bind(this));
+    this.connection.languages.callHierarchy.onPrepare(this.onPrepareCallHierarchy.bind(this));
+    this.connection.languages.callHierarchy.onIncomingCalls(this.onIncomingCalls.bind(this));
+    this.connection.languages.callHierarchy.onOutgoingCalls(this.onOutgoingCalls.bind(this));
+    this.connection.languages.semanticTokens.on(this.onSemanticTokens.bind(this));
+    this.connection.languages.semanticTokens.onDelta(this.onSemanticTokensDelta.bind(this));
 
     this.connection.onExit(() => {
       process.exit(0);
@@ -138,6 +208,23 @@ export default class Server {
   // **************************************************************************
   // ****** HANDLERS **********************************************************
 
+  private onPrepareCallHierarchy(params: LSP.CallHierarchyPrepareParams): LSP.CallHierarchyItem[] {
+    log.info('Got request prepareCallHierarchy:');
+    const { textDocument: { uri }, position } = params;
+    const doc = safeCollectionGet(this.store.documents, 'uri', uri);
+    return this.callHierarchyProvider.prepare(doc, position);
+  }
+
+  private onIncomingCalls(params: LSP.CallHierarchyIncomingCallsParams): LSP.CallHierarchyIncomingCall[] {
+    log.info('Got request callHierarchy/incomingCalls:');
+    return this.callHierarchyProvider.getIncomingCalls(params.item);
+  }
+
+  private onOutgoingCalls(params: LSP.CallHierarchyOutgoingCallsParams): LSP.CallHierarchyOutgoingCall[] {
+    log.info('Got request callHierarchy/outgoingCalls:');
+    return this.callHierarchyProvider.getOutgoingCalls(params.item);
+  }
+
   private onCodeLens({ textDocument }: LSP.CodeLensParams): LSP.CodeLens[] {
     log.info('Got request codeLens');
     const doc = safeCollectionGet(this.store.documents, 'uri', textDocument.uri);
@@ -152,6 +239,16 @@ export default class Server {
       this.addWorkspace(wsUri);
     }
     const doc = safeCollectionGet(this.store.documents, 'uri', uri);
+    // The indexed text can be stale, e.g. for documents created by a workspace
+    // edit whose content has not been saved yet, and later incremental changes
+    // and versioned edits are made against the opened document.
+    if (doc.text !== textDocument.text) {
+      doc.update(textDocument.version, [{ text: textDocument.text }]);
+      doc.reparse();
+      doc.workspace.clearCache();
+    } else {
+      doc.setVersion(textDocument.version);
+    }
     doc.state = DocumentState.editing;
     this.store.documents.update(doc);
     this.analyzeDocument(uri, false);
@@ -215,6 +312,11 @@ export default class Server {
     return this.completer.complete(doc, position);
   }
 
+  private onCompletionResolve(item: LSP.CompletionItem): LSP.CompletionItem {
+    log.info('Got request completionItem/resolve:');
+    return this.completer.resolve(item);
+  }
+
   private async onCodeAction(params: LSP.CodeActionParams): Promise<LSP.CodeAction[]> {
     log.info('Got request codeAction:');
     const { textDocument: { uri }, range, context: { diagnostics } } = params;
@@ -224,8 +326,15 @@ export default class Server {
       await (this.getDiagnostics(doc).then(idiags => (
         idiags.filter(x => rangeIntersection(x.range, range) !== null)
       )));
-    const fixes = await Promise.all(diags.map(x => this.fixer.getFix(doc, x)));
-    return fixes.filter((x): x is LSP.CodeAction => x !== undefined);
+    const fixes = await Promise.all(diags.map(x => this.fixer.getFixes(doc, x)));
+    return fixes.flat();
+  }
+
+  private onDeclaration(params: LSP.DeclarationParams): LSP.DeclarationLink[] | null {
+    log.info('Got request declaration:');
+    const { textDocument: { uri }, position } = params;
+    const doc = safeCollectionGet(this.store.documents, 'uri', uri);
+    return this.definitionResolver.resolveDeclaration(doc, position);
   }
 
   private onDefinition(params: LSP.DefinitionParams): LSP.DefinitionLink[] | null {
@@ -236,18 +345,68 @@ export default class Server {
     return this.definitionResolver.resolve(doc, position);
   }
 
-  private onExecuteCommand(params: LSP.ExecuteCommandParams): void {
+  private onDocumentFormatting(params: LSP.DocumentFormattingParams): LSP.TextEdit[] {
+    log.info('Got request formatting:');
+    const { textDocument: { uri } } = params;
+    const doc = safeCollectionGet(this.store.documents, 'uri', uri);
+    return this.formatter.format(doc);
+  }
+
+  private onDocumentRangeFormatting(params: LSP.DocumentRangeFormattingParams): LSP.TextEdit[] {
+    log.info('Got request rangeFormatting:');
+    const { textDocument: { uri }, range } = params;
+    const doc = safeCollectionGet(this.store.documents, 'uri', uri);
+    return this.formatter.format(doc, range);
+  }
+
+  private onDocumentLinks(params: LSP.DocumentLinkParams): LSP.DocumentLink[] {
+    log.info('Got request documentLink:');
+    const { textDocument: { uri } } = params;
+    const doc = safeCollectionGet(this.store.documents, 'uri', uri);
+    return this.linkProvider.getLinks(doc);
+  }
+
+  private onDocumentLinkResolve(link: LSP.DocumentLink): LSP.DocumentLink {
+    log.info('Got request documentLink/resolve:');
+    return this.linkProvider.resolve(link);
+  }
+
+  private onDocumentSymbol(params: LSP.DocumentSymbolParams): LSP.DocumentSymbol[] {
+    log.info('Got request documentSymbol:');
+    const { textDocument: { uri } } = params;
+    const doc = safeCollectionGet(this.store.documents, 'uri', uri);
+    return this.symbolProvider.getDocumentSymbols(doc);
+  }
+
+  private async onExecuteCommand(
+    params: LSP.ExecuteCommandParams,
+  ): Promise<GetCitationsResponse | MoveMediaToTrashResponse | null> {
     const { command } = params;
     if (command === 'reparse') {
       const [uri] = params.arguments as [string];
       const doc = safeCollectionGet(this.store.documents, 'uri', uri);
       doc.reparse();
       this.analyzeDocument(doc, false);
+      return null;
+    } else if (command === 'getCitations') {
+      return this.getCitations(params.arguments as GetCitationsArguments);
+    } else if (command === 'addSectionCitekey') {
+      await this.addSectionCitekey(params.arguments as [FURI, number, string]);
+      return null;
+    } else if (command === 'moveMediaToTrash') {
+      return this.moveMediaToTrash(params.arguments as MoveMediaToTrashArguments);
     } else {
       throw new Error(`Unrecognized command \`${command}\`.`);
     }
   }
 
+  private onFoldingRanges(params: LSP.FoldingRangeParams): LSP.FoldingRange[] {
+    log.info('Got request foldingRange:');
+    const { textDocument: { uri } } = params;
+    const doc = safeCollectionGet(this.store.documents, 'uri', uri);
+    return this.foldingRangeProvider.getFoldingRanges(doc);
+  }
+
   private onHover(params: LSP.TextDocumentPositionParams): LSP.Hover | null {
     const { textDocument: { uri }, position } = params;
     const doc = this.store.documents.by('uri', uri);
@@ -331,6 +490,116 @@ export default class Server {
     }
   }
 
+  private onSelectionRanges(params: LSP.SelectionRangeParams): LSP.SelectionRange[] {
+    log.info('Got request selectionRange:');
+    const { textDocument: { uri }, positions } = params;
+    const doc = safeCollectionGet(this.store.documents, 'uri', uri);
+    return this.selectionRangeProvider.getSelectionRanges(doc, positions);
+  }
+
+  private onSemanticTokens(params: LSP.SemanticTokensParams): LSP.SemanticTokens {
+    log.info('Got request semanticTokens/full');
+    const { textDocument: { uri } } = params;
+    const doc = safeCollectionGet(this.store.documents, 'uri', uri);
+    return this.semanticTokenizer.tokenize(doc);
+  }
+
+  private onSemanticTokensDelta(
+    params: LSP.SemanticTokensDeltaParams,
+  ): LSP.SemanticTokens | LSP.SemanticTokensDelta {
+    log.info('Got request semanticTokens/full/delta');
+    const { textDocument: { uri }, previousResultId } = params;
+    const doc = safeCollectionGet(this.store.documents, 'uri', uri);
+    return this.semanticTokenizer.tokenizeDelta(doc, previousResultId);
+  }
+
+  private onSignatureHelp(params: LSP.SignatureHelpParams): LSP.SignatureHelp | null {
+    log.info('Got request signatureHelp:');
+    const { textDocument: { uri }, position } = params;
+    const doc = safeCollectionGet(this.store.documents, 'uri', uri);
+    return this.annotater.getSignatureHelp(doc, position);
+  }
+
+  private onWorkspaceSymbol(params: LSP.WorkspaceSymbolParams): LSP.SymbolInformation[] {
+    log.info('Got request workspaceSymbol:');
+    return this.symbolProvider.getWorkspaceSymbols(params.query);
+  }
+
+  // **************************************************************************
+  // ****** COMMANDS **********************************************************
+
+  // If there is exactly one citation and the client supports it, the citation
+  // is also opened with `window/showDocument`.
+  private async getCitations([uri, citekey, type]: GetCitationsArguments): Promise<GetCitationsResponse> {
+    const doc = safeCollectionGet(this.store.documents, 'uri', uri);
+    const { workspace } = doc;
+    let position: LSP.Position;
+    let citations: (QW.ReferenceCitation | QW.SectionCitation)[];
+    if (type === 'reference') {
+      const listing = doc.referenceListings.find(x => x.citekey === citekey);
+      assertDefined(listing?.nodes.citekey);
+      position = tsNodeToLspRange(listing.nodes.citekey).start;
+      citations = workspace.getAllReferenceCitations(citekey);
+    } else if (type === 'section') {
+      const section = doc.sections.find(x => x.citekey === citekey);
+      assertDefined(section?.nodes.citekey);
+      position = tsNodeToLspRange(section.nodes.citekey).start;
+      citations = workspace.getAllSectionCitations(citekey);
+    } else {
+      throw new Error(`"${type}" is not a valid citation type.`);
+    }
+    const locations = citations.map(x => ({
+      uri: x.uri,
+      range: tsNodeToLspRange(x.nodes.root),
+    }));
+    if (locations.length === 1 && this.clientCapabilities.window?.showDocument?.support) {
+      await this.connection.window.showDocument({
+        uri: locations[0].uri,
+        selection: locations[0].range,
+        takeFocus: true,
+      });
+    }
+    return { uri, position, locations };
+  }
+
+  // Writes a citekey into the header of the section starting at `line`.
+  private async addSectionCitekey([uri, line, citekey]: [FURI, number, string]): Promise<void> {
+    const doc = safeCollectionGet(this.store.documents, 'uri', uri);
+    const section = doc.sections.find(x => x.nodes.root.startPosition.row === line);
+    if (section === undefined || section.citekey !== undefined) return;
+    const { start } = tsNodeToLspRange(section.nodes.title);
+    await this.connection.workspace.applyEdit({
+      changes: {
+        [uri]: [LSP.TextEdit.insert(start, formatHeaderCitekey(citekey))],
+      },
+    });
+  }
+
+  // Moves media files into the trash directory rather than deleting them, so
+  // that pruning can be undone. Files that are referenced again since they
+  // were reported unused are left in place.
+  private moveMediaToTrash([uri, relPaths]: MoveMediaToTrashArguments): MoveMediaToTrashResponse {
+    const ws = safeCollectionGet(this.store.workspaces, 'uri', resolveDocumentWorkspace(uri));
+    const unused = ws.getUnusedMediaFiles();
+    const response: MoveMediaToTrashResponse = { moved: [], skipped: [] };
+    relPaths.forEach(relPath => {
+      const file = unused.find(x => x.relativePath === relPath);
+      if (file === undefined) {
+        response.skipped.push(relPath);
+        return;
+      }
+      try {
+        const trashPath = ws.trashMediaFile(file, config.mediaTrashDir);
+        response.moved.push({ from: file.absolutePath, to: trashPath });
+      } catch (err) {
+        log.warn(`Could not move ${relPath} to trash: ${err}`);
+        response.skipped.push(relPath);
+      }
+    });
+    log.info(`Moved ${response.moved.length} media files to trash, skipped ${response.skipped.length}`);
+    return response;
+  }
+
   // **************************************************************************
   // ****** CUSTOM NOTIFICATIONS **********************************************
 
@@ -367,8 +636,24 @@ export default class Server {
     });
   }
 
-  private createFile(_params: LSP.CreateFile) {
-    // this.on
+  // The new document is indexed right away rather than when the client opens
+  // it, so that includes and citations of it resolve immediately. Its content
+  // may not be on disk yet; `onDidOpenTextDocument` replaces it with the
+  // opened text.
+  private createFile({ uri }: LSP.CreateFile) {
+    if (this.store.documents.by('uri', uri) !== undefined) return;
+    const wsUri = resolveDocumentWorkspace(uri);
+    const workspace = this.store.workspaces.by('uri', wsUri);
+    if (workspace === undefined) {
+      this.addWorkspace(wsUri);
+      return;
+    }
+    const filePath = uriToPath(uri);
+    const text = fs.existsSync(filePath) ? fs.readFileSync(filePath, { encoding: 'utf8' }) : '';
+    const doc = this.insertDocument(workspace, uri, text, DocumentState.indexing);
+    this.insertAuditTask(doc);
+    workspace.clearCache();
+    this.analyzeDocument(doc, false);
   }
 
   private deleteFile({ uri }: LSP.DeleteFile) {
@@ -428,10 +713,14 @@ export default class Server {
         return this.getReferences(params as GetReferencesRequest);
       case 'custom/fileTree':
         return this.getFileTree(params as FileTreeRequest);
+      case 'custom/orphans':
+        return this.getOrphans(params as OrphansRequest);
       case 'custom/outline':
         return this.getOutline(params as OutlineRequest);
       case 'custom/parseTextDocument':
         return this.parseTextDocument(params as ParseRequest);
+      case 'custom/unusedMedia':
+        return this.getUnusedMedia(params as UnusedMediaRequest);
       default:
         throw new Error(`Unrecognized request method ${method}.`);
     }
@@ -498,7 +787,7 @@ export default class Server {
     }
   }
 
-  private convertReference({ key, type }: Reference): { key: string, type: ReferenceType } {
+  private convertReference({ key, type }: QW.Reference): { key: string, type: ReferenceType } {
     return { key, type };
   }
 
@@ -511,6 +800,30 @@ export default class Server {
     return { tree: parseTree };
   }
 
+  private getOrphans(params: OrphansRequest): OrphansResponse {
+    const { uri } = params;
+    const wsUri = resolveDocumentWorkspace(uri);
+    if (this.store.workspaces.by('uri', wsUri) === undefined) {
+      this.addWorkspace(wsUri);
+    }
+    const ws = safeCollectionGet(this.store.workspaces, 'uri', wsUri);
+    return { orphans: ws.orphans };
+  }
+
+  private getUnusedMedia(params: UnusedMediaRequest): UnusedMediaResponse {
+    const { uri } = params;
+    const wsUri = resolveDocumentWorkspace(uri);
+    if (this.store.workspaces.by('uri', wsUri) === undefined) {
+      this.addWorkspace(wsUri);
+    }
+    const ws = safeCollectionGet(this.store.workspaces, 'uri', wsUri);
+    const files = ws.getUnusedMediaFiles().map(x => ({
+      path: x.relativePath,
+      size: getPathSize(x.absolutePath),
+    }));
+    return { files };
+  }
+
   private getOutline(params: OutlineRequest): OutlineResponse {
     const { uri, scope } = params;
     const wsUri = resolveDocumentWorkspace(uri);
@@ -540,24 +853,30 @@ export default class Server {
     const docs = docPaths.map(furi => {
       const text = fs.readFileSync(uriToPath(furi), { encoding: 'utf8' });
       const state = uri === furi ? DocumentState.editing : DocumentState.indexing;
-      const doc = new Document(this.store, {
-        uri: furi,
-        text,
-        state,
-        workspaceId: workspace.id,
-      });
-      this.store.documents.insert(doc);
-      return doc;
+      return this.insertDocument(workspace, furi, text, state);
     });
-    docs.forEach(doc => {
-      const task = new Task(this.store, {
-        operation: TaskOperation.audit,
-        documentId: doc.id,
-        dependencyIds: [],
-      });
-      this.store.tasks.insert(task);
-      return task;
+    docs.forEach(doc => this.insertAuditTask(doc));
+  }
+
+  private insertDocument(workspace: Workspace, uri: FURI, text: string, state: DocumentState): Document {
+    const doc = new Document(this.store, {
+      uri,
+      text,
+      state,
+      workspaceId: workspace.id,
+    });
+    this.store.documents.insert(doc);
+    return doc;
+  }
+
+  private insertAuditTask(doc: Document): Task {
+    const task = new Task(this.store, {
+      operation: TaskOperation.audit,
+      documentId: doc.id,
+      dependencyIds: [],
     });
+    this.store.tasks.insert(task);
+    return task;
   }
 
   public dropDocument(docRef: DocumentRef) {
@@ -570,6 +889,7 @@ export default class Server {
       }
       this.store.tasks.remove(task);
     });
+    this.semanticTokenizer.release(doc.uri);
     this.store.documents.remove(doc);
   }
 
@@ -0,0 +1,209 @@
+import { SyntaxNode } from 'tree-sitter';
+import * as LSP from 'vscode-languageserver';
+import Logger from './logger';
+import Server from './server';
+import Document from './types/document';
+import { makeQuery } from './types/tree-sitter';
+import Workspace from './types/workspace';
+import {
+  fuzzyScore,
+  getCapture,
+  nodeContains,
+  tsEndpointsToLspRange,
+  tsNodeToLspRange,
+} from './util';
+
+const log = new Logger('symbol-provider');
+
+// A symbol paired with the node it was built from, used to nest symbols by
+// node containment.
+type SymbolEntry = {
+  node: SyntaxNode,
+  symbol: LSP.DocumentSymbol,
+};
+
+// A workspace symbol paired with its fuzzy match score against the query.
+type ScoredSymbol = {
+  score: number,
+  symbol: LSP.SymbolInformation,
+};
+
+const MAX_WORKSPACE_SYMBOLS = 200;
+
+const directiveQuery = makeQuery(`
+  (directive
+    (directive_type) @type) @root
+`);
+
+export default class SymbolProvider {
+
+  private server: Server;
+
+  constructor(server: Server) {
+    this.server = server;
+  }
+
+  // **************************************************************************
+  // ****** DOCUMENT SYMBOLS **************************************************
+
+  // Section nodes nest inside their parent section nodes, so sorting all
+  // entries by position and nesting by containment reproduces the section
+  // hierarchy of `SectionTreeBuilder`, with listings and directives attached
+  // to their innermost enclosing section or block.
+  public getDocumentSymbols(doc: Document): LSP.DocumentSymbol[] {
+    const entries = [
+      ...this.getSectionEntries(doc),
+      ...this.getReferenceBlockEntries(doc),
+      ...this.getReferenceEntries(doc),
+      ...this.getDirectiveEntries(doc),
+    ].sort((a, b) => (
+      (a.node.startIndex - b.node.startIndex) || (b.node.endIndex - a.node.endIndex)
+    ));
+    const roots: LSP.DocumentSymbol[] = [];
+    const stack: SymbolEntry[] = [];
+    entries.forEach(entry => {
+      while (stack.length > 0 && !nodeContains(stack[stack.length - 1].node, entry.node)) {
+        stack.pop();
+      }
+      const parent = stack[stack.length - 1];
+      if (parent === undefined) roots.push(entry.symbol);
+      else parent.symbol.children?.push(entry.symbol);
+      stack.push(entry);
+    });
+    log.info(`Found ${entries.length} document symbols for ${doc}`);
+    return roots;
+  }
+
+  // ===== ENTRIES ============================================================
+
+  private getSectionEntries(doc: Document): SymbolEntry[] {
+    return doc.sections.map(({ title, citekey, nodes }) => {
+      const start = (nodes.citekey && nodes.citekey.startIndex < nodes.title.startIndex) ?
+        nodes.citekey : nodes.title;
+      return this.makeEntry(nodes.root, {
+        name: title,
+        detail: citekey,
+        kind: LSP.SymbolKind.Namespace,
+        selectionRange: tsEndpointsToLspRange(start.startPosition, nodes.title.endPosition),
+      });
+    });
+  }
+
+  private getReferenceBlockEntries(doc: Document): SymbolEntry[] {
+    return doc.referenceBlocks.map(({ title, nodes }) => (
+      this.makeEntry(nodes.root, {
+        name: title,
+        kind: LSP.SymbolKind.Package,
+        selectionRange: tsNodeToLspRange(nodes.title),
+      })
+    ));
+  }
+
+  private getReferenceEntries(doc: Document): SymbolEntry[] {
+    return doc.referenceListings.map(({ citekey, key, displayName, nodes }) => (
+      this.makeEntry(nodes.root, {
+        name: citekey ?? key,
+        detail: displayName ?? (citekey === undefined ? undefined : key),
+        kind: LSP.SymbolKind.Key,
+        selectionRange: tsNodeToLspRange(nodes.citekey ?? nodes.key),
+      })
+    ));
+  }
+
+  private getDirectiveEntries(doc: Document): SymbolEntry[] {
+    return directiveQuery.matches(doc.tree.rootNode).map(m => {
+      const root = getCapture(m, 'root', false);
+      const type = getCapture(m, 'type', false);
+      return this.makeEntry(root, {
+        name: type.text.slice(0, -2),
+        kind: LSP.SymbolKind.Object,
+        selectionRange: tsNodeToLspRange(type),
+      });
+    });
+  }
+
+  // **************************************************************************
+  // ****** WORKSPACE SYMBOLS *************************************************
+
+  public getWorkspaceSymbols(query: string): LSP.SymbolInformation[] {
+    const scored = this.server.store.workspaces.find().flatMap(ws => [
+      ...this.getSectionSymbols(ws, query),
+      ...this.getReferenceSymbols(ws, query),
+      ...this.getFileSymbols(ws, query),
+    ]);
+    log.info(`Found ${scored.length} workspace symbols matching "${query}"`);
+    return scored
+      .sort((a, b) => b.score - a.score)
+      .slice(0, MAX_WORKSPACE_SYMBOLS)
+      .map(x => x.symbol);
+  }
+
+  // ===== CANDIDATES =========================================================
+
+  // All sections, not only those in `sectionsByCitekey`, so that sections
+  // without a citekey or with a duplicated one can be found by title.
+  private getSectionSymbols(ws: Workspace, query: string): ScoredSymbol[] {
+    const sections = ws.documents.flatMap(doc => doc.sections);
+    return sections.map(({ uri, title, citekey, nodes }) => (
+      this.makeScoredSymbol(query, [citekey, title], {
+        name: title,
+        kind: LSP.SymbolKind.Namespace,
+        location: { uri, range: tsNodeToLspRange(nodes.header) },
+        containerName: ws.docUriToRelativePath(uri),
+      })
+    )).filter((x): x is ScoredSymbol => x !== undefined);
+  }
+
+  private getReferenceSymbols(ws: Workspace, query: string): ScoredSymbol[] {
+    return [...ws.referencesByCitekey.entries()].map(([citekey, { uri, displayName, nodes }]) => (
+      this.makeScoredSymbol(query, [citekey, displayName], {
+        name: citekey,
+        kind: LSP.SymbolKind.Key,
+        location: { uri, range: tsNodeToLspRange(nodes.root) },
+        containerName: ws.docUriToRelativePath(uri),
+      })
+    )).filter((x): x is ScoredSymbol => x !== undefined);
+  }
+
+  private getFileSymbols(ws: Workspace, query: string): ScoredSymbol[] {
+    return ws.documents.map(doc => (
+      this.makeScoredSymbol(query, [doc.relativePath], {
+        name: doc.relativePath,
+        kind: LSP.SymbolKind.File,
+        location: {
+          uri: doc.uri,
+          range: doc.topSection === undefined ?
+            LSP.Range.create(0, 0, 0, 0) : tsNodeToLspRange(doc.topSection.nodes.header),
+        },
+      })
+    )).filter((x): x is ScoredSymbol => x !== undefined);
+  }
+
+  // **************************************************************************
+  // ****** UTILITIES *********************************************************
+
+  private makeEntry(
+    node: SyntaxNode,
+    props: Omit<LSP.DocumentSymbol, 'range' | 'children'>,
+  ): SymbolEntry {
+    return {
+      node,
+      symbol: { ...props, range: tsNodeToLspRange(node), children: [] },
+    };
+  }
+
+  // Score a symbol by the best match of the query against any of its targets.
+  private makeScoredSymbol(
+    query: string,
+    targets: (string | undefined)[],
+    symbol: LSP.SymbolInformation,
+  ): ScoredSymbol | undefined {
+    const scores = targets
+      .filter((x): x is string => x !== undefined)
+      .map(x => fuzzyScore(query, x))
+      .filter((x): x is number => x !== undefined);
+    if (scores.length === 0) return undefined;
+    else return { score: Math.max(...scores), symbol };
+  }
+
+}
@@ -72,6 +72,10 @@ class FullTextDocument implements TreeSitterTextDocument {
     this._tree = tree;
   }
 
+  public setVersion(version: number) {
+    this._version = version;
+  }
+
   public getText(range?: Range): string {
     if (range) {
       const start = this.offsetAt(range.start);
@@ -302,4 +306,25 @@ export namespace TreeSitterTextDocument {
     }
   }
 
+  /**
+   * Sets the version of a TextDocument without changing its content, e.g. to
+   * adopt the version a client opened an unchanged document with.
+   *
+   * @param document the document to update. Only documents created by TextDocument.create are valid inputs.
+   * @param version the new version number.
+   * @returns The updated TextDocument. Note: That's the same document instance passed in as first parameter.
+   *
+   */
+  export function setVersion(
+    document: TextDocument,
+    version: number,
+  ): TreeSitterTextDocument {
+    if (document instanceof FullTextDocument) {
+      document.setVersion(version);
+      return document;
+    } else {
+      throw new Error('TextDocument.setVersion: document must be created by TextDocument.create');
+    }
+  }
+
 }
@@ -45,7 +45,15 @@ export type DiagnosticCode = (
   'broken-include' |
   'broken-reference-key' |
   'stale-reference-key' |
-  'undefined-directive'
+  'undefined-directive' |
+  'missing-directive-argument' |
+  'unknown-directive-option' |
+  'invalid-directive-option-value' |
+  'unexpected-directive-content' |
+  'duplicate-reference-citekey' |
+  'duplicate-section-citekey' |
+  'uncited-reference-listing' |
+  'orphaned-document'
 );
 
 export type FURI = string;
@@ -86,6 +94,8 @@ export type Config = {
   logMode: LogMode,
   projectRootPatterns: string[],
   redisURL: string | undefined,
+  uncitedReferencesFile: string,
+  mediaTrashDir: string,
 };
 
 export type LogMode = 'console' | { path: string };
@@ -24,6 +24,21 @@ export interface FileTreeResponse {
   root: FileTreeNode,
 }
 
+// ****************************************************************************
+// ****** GET CITATIONS *******************************************************
+
+// Arguments of the `getCitations` command: the document holding the cited
+// section or reference listing, its citekey, and which kind it is.
+export type GetCitationsArguments = [FURI, string, 'reference' | 'section'];
+
+// Matches the arguments of the `editor.action.showReferences` command of
+// VS Code, so that clients can show the result as a peek/references list.
+export interface GetCitationsResponse {
+  uri: FURI,
+  position: LSP.Position,
+  locations: LSP.Location[],
+}
+
 // ****************************************************************************
 // ****** GET IMAGE REFERENCES ************************************************
 
@@ -47,6 +62,46 @@ export interface GetReferencesResponse {
   references: ({ key: string, type: ReferenceType})[],
 }
 
+// ****************************************************************************
+// ****** MOVE MEDIA TO TRASH *************************************************
+
+// Arguments of the `moveMediaToTrash` command: the workspace and the paths of
+// the media files to move, relative to its `media/` directory.
+export type MoveMediaToTrashArguments = [FURI, string[]];
+
+// Files still referenced, or that could not be moved, are skipped. Moved files
+// keep their path below the trash directory (numbered if an earlier trashed
+// file is in the way), and are reported with absolute paths so that each move
+// can be undone by moving `to` back to `from`.
+export interface MoveMediaToTrashResponse {
+  moved: ({ from: string, to: string })[],
+  skipped: string[],
+}
+
+// ****************************************************************************
+// ****** ORPHANS *************************************************************
+
+export interface OrphansRequest {
+  uri: FURI,
+}
+
+// Workspace documents not reached by includes from the index.
+export interface OrphansResponse {
+  orphans: FURI[],
+}
+
+// ****************************************************************************
+// ****** UNUSED MEDIA ********************************************************
+
+export interface UnusedMediaRequest {
+  uri: FURI,
+}
+
+// Paths are relative to the workspace `media/` directory; sizes are in bytes.
+export interface UnusedMediaResponse {
+  files: ({ path: string, size: number })[],
+}
+
 // ****************************************************************************
 // ****** PARSE ***************************************************************
 
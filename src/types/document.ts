@@ -87,9 +87,9 @@ export default class Document extends Model implements PropertyCacher {
     directives: makeQuery(`
       (directive
         (directive_type) @type
-        (directive_arguments) @arguments
-        (directive_options) @options
-        (directive_content)) @root
+        (directive_arguments)? @arguments
+        (directive_options)? @options
+        (directive_content)? @content) @root
     `),
     imageCarousels: makeQuery(`
       (image_carousel) @root
@@ -155,6 +155,10 @@ export default class Document extends Model implements PropertyCacher {
     TreeSitterTextDocument.reparse(this.tsDoc);
   }
 
+  public setVersion(version: number) {
+    TreeSitterTextDocument.setVersion(this.tsDoc, version);
+  }
+
   public update(version: number, changes: LSP.TextDocumentContentChangeEvent[]) {
     TreeSitterTextDocument.update(this.tsDoc, changes, version);
     this.clearCache();
@@ -277,6 +281,14 @@ export default class Document extends Model implements PropertyCacher {
     return new QW.Section(this.uri, section);
   }
 
+  // Like `rootSection`, but undefined for documents without a level-1
+  // section, e.g. empty or newly created ones.
+  @memoize<Document>()
+  get topSection(): QW.Section | undefined {
+    const section = Document.queries.section1s.matches(this.tree.rootNode)[0];
+    return section === undefined ? undefined : new QW.Section(this.uri, section);
+  }
+
   @memoize<Document>()
   get sectionCitations(): QW.SectionCitation[] {
     return Document.queries.sectionCitations.matches(this.tree.rootNode).map(x => (
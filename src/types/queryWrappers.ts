@@ -101,9 +101,10 @@ function makeNodeWrapperClass<S extends QuerySchema>(
 const directiveSchema = {
   root: true,
   options: false,
-  arguments: true,
+  arguments: false,
+  content: false,
   type: true,
-};
+} as const;
 
 export class Directive extends makeWrapperClass(directiveSchema) { }
 
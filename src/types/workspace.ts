@@ -1,5 +1,7 @@
+import fs from 'fs';
 import fg from 'fast-glob';
 import path from 'path';
+import config from '../config';
 import SectionTreeBuilder from '../sectionTreeBuilder';
 
 import Logger from '../logger';
@@ -9,8 +11,12 @@ import {
   assertDefined,
   classifyMediaFile,
   ensureLeadingSlash,
+  getIncludeRoot,
+  groupBy,
   memoize,
+  pathToUri,
   removeLeadingSlash,
+  resolveWorkspaceDocuments,
   safeGet,
   staticImplements,
   TimeCachedValue,
@@ -38,6 +44,14 @@ export type MediaFile = {
   type: MediaType,
 };
 
+// An `include::` in `source` that resolves to `target`. Glob includes produce
+// one edge per matched document.
+export type IncludeEdge = {
+  source: Document,
+  include: QW.Include,
+  target: Document,
+};
+
 export type WorkspaceType = 'single-file' | 'multi-file';
 
 export type WorkspaceInput = {
@@ -132,6 +146,51 @@ export default class Workspace extends Model implements PropertyCacher {
     return table;
   }
 
+  @memoize<Workspace>()
+  get includeEdges(): IncludeEdge[] {
+    return this.documents.flatMap(source => {
+      const root = getIncludeRoot(source.uri);
+      return source.includes.flatMap(include => {
+        const relPaths = include.key.includes('*') ?
+          fg.sync([`${include.key}.rst`], { cwd: root }).sort() :
+          [`${include.key}.rst`];
+        return relPaths
+          .map(p => this.store.documents.by('uri', pathToUri(path.join(root, p))))
+          .filter((d): d is Document => d !== undefined)
+          .map(target => ({ source, include, target }));
+      });
+    });
+  }
+
+  // Documents on disk that are not reached by following includes from the
+  // index. Workspaces without an index have no orphans. The uncited references
+  // file is not meant to be included, so it is never an orphan.
+  @memoize<Workspace>()
+  get orphans(): FURI[] {
+    if (this.type === 'single-file' || this.getDocument('index.rst') === undefined) return [];
+    const edgesBySource = groupBy(this.includeEdges, x => x.source.uri);
+    const reached = new Set<FURI>([this.index.uri]);
+    const queue = [this.index.uri];
+    while (queue.length > 0) {
+      const uri = queue.shift() as FURI;
+      (edgesBySource.get(uri) ?? []).forEach(({ target }) => {
+        if (!reached.has(target.uri)) {
+          reached.add(target.uri);
+          queue.push(target.uri);
+        }
+      });
+    }
+    reached.add(this.relativePathToDocUri(config.uncitedReferencesFile));
+    return resolveWorkspaceDocuments(this.uri).filter(uri => !reached.has(uri));
+  }
+
+  // The workspace section tree is rooted at the level-1 section of the index,
+  // so workspaces without an index, or with an index without one (e.g. a new
+  // empty index), have no tree.
+  get hasSectionTree(): boolean {
+    return this.type === 'multi-file' && this.getDocument('index.rst')?.topSection !== undefined;
+  }
+
   @memoize<Workspace>()
   get sectionTree(): SectionTreeNode {
     return new SectionTreeBuilder(this.index, true).run();
@@ -145,6 +204,39 @@ export default class Workspace extends Model implements PropertyCacher {
     ));
   }
 
+  // Media files referenced by no image path or media reference key.
+  // `.media-unit` directories count as referenced if any file inside them is.
+  getUnusedMediaFiles(): MediaFile[] {
+    const referenced = [
+      ...this.getAllImageReferences().map(x => x.root),
+      ...this.documents.flatMap(doc => doc.referenceListings)
+        .filter(x => x.type === 'media')
+        .map(x => x.key),
+    ].map(removeLeadingSlash);
+    return this.mediaFiles.filter(({ relativePath }) => !referenced.some(x => (
+      relativePath.endsWith('/') ?
+        x === relativePath.slice(0, -1) || x.startsWith(relativePath) :
+        x === relativePath
+    )));
+  }
+
+  // Moves a media file or `.media-unit` directory into `trashDir`, keeping its
+  // path relative to `media/`. An earlier trashed file at the same path is
+  // kept by numbering the new one, e.g. `plot-2.png`. Returns its new absolute
+  // path.
+  trashMediaFile({ relativePath, absolutePath }: MediaFile, trashDir: string): string {
+    const basePath = path.join(uriToPath(this.uri), trashDir, relativePath.replace(/\/$/, ''));
+    const ext = path.extname(basePath);
+    let trashPath = basePath;
+    for (let i = 2; fs.existsSync(trashPath); i++) {
+      trashPath = `${basePath.slice(0, basePath.length - ext.length)}-${i}${ext}`;
+    }
+    fs.mkdirSync(path.dirname(trashPath), { recursive: true });
+    fs.renameSync(absolutePath, trashPath);
+    this.mediaFilesCache.invalidate();
+    return trashPath;
+  }
+
   getAllSymbolInstances(sym: TextSymbol): TextSymbol[] {
     if (sym.type === 'media-file-path') {
       const symSlash = ensureLeadingSlash(sym.node.text);
@@ -179,6 +271,15 @@ export default class Workspace extends Model implements PropertyCacher {
     }
   }
 
+  // Accepts both image paths and media reference keys, which carry a leading
+  // slash. `.media-unit` directories match with or without a trailing slash.
+  getMediaFile(mediaPath: string): MediaFile | undefined {
+    const relPath = removeLeadingSlash(mediaPath);
+    return this.mediaFiles.find(({ relativePath }) => (
+      relativePath === relPath || relativePath === `${relPath}/`
+    ));
+  }
+
   getAllReferenceCitations(citekey: string): QW.ReferenceCitation[] {
     return this.documents.flatMap(doc => (
       doc.referenceCitations.filter(x => (
@@ -201,6 +302,32 @@ export default class Workspace extends Model implements PropertyCacher {
     ));
   }
 
+  getAllSections(citekey: string): QW.Section[] {
+    return this.documents.flatMap(doc => (
+      doc.sections.filter(x => (
+        x.citekey === citekey
+      ))
+    ));
+  }
+
+  // The nearest document able to include `uri`, and the include key it would
+  // use: the index of the directory of `uri` or the document named after it,
+  // or the same for a directory further up, falling back to the index.
+  getIncludeParent(uri: FURI): { parent: Document, key: string } | undefined {
+    const parts = this.docUriToRelativePath(uri).replace(/\.rst$/, '').split('/');
+    for (let i = parts.length - 1; i >= 0; i--) {
+      const dir = parts.slice(0, i).join('/');
+      const parentPaths = i === 0 ? ['index.rst'] : [`${dir}/index.rst`, `${dir}.rst`];
+      const parent = parentPaths
+        .map(x => this.getDocument(x))
+        .find(x => x !== undefined && x.uri !== uri);
+      if (parent !== undefined) {
+        return { parent, key: parts.slice(i).join('/') };
+      }
+    }
+    return undefined;
+  }
+
   getAllSectionCitations(citekey: string): QW.ReferenceCitation[] {
     return this.documents.flatMap(doc => (
       doc.sectionCitations.filter(x => (
@@ -11,6 +11,7 @@ import Logger from './logger';
 import {
   FURI,
   PropertyCacher,
+  SectionTreeNode,
   TextContext,
   TextSymbol,
   TextSymbolType,
@@ -22,20 +23,6 @@ import { QueryMatch } from './types/tree-sitter';
 
 const log = new Logger('util');
 
-export const DEFINED_DIRECTIVES = [
-  'code',
-  'figure',
-  'flag',
-  'image-carousel',
-  'math',
-  'note',
-  'references',
-  'sections',
-  'table',
-  'tasks',
-  'video',
-];
-
 // ****************************************************************************
 // ****** CONVERSIONS *********************************************************
 
@@ -119,6 +106,19 @@ export function resolveDocumentWorkspace(uri: FURI): FURI {
   return uri;
 }
 
+// ----- GET INCLUDE ROOT
+// Return the directory against which the include keys of a document are
+// resolved: the document's own directory for `index.rst`, otherwise a sibling
+// directory named after the document.
+
+export function getIncludeRoot(uri: FURI): string {
+  const dpath = uriToPath(uri);
+  const dirname = path.dirname(dpath);
+  const basename = path.basename(dpath);
+  return basename === 'index.rst' ?
+    dirname : path.join(dirname, basename.replace(/\.rst$/, ''));
+}
+
 // ----- RESOLVE WORKSPACE DOCUMENTS
 
 export function resolveWorkspaceDocuments(uri: FURI): FURI[] {
@@ -129,6 +129,41 @@ export function resolveWorkspaceDocuments(uri: FURI): FURI[] {
     .map(x => pathToUri(`${basePath}/${x}`));
 }
 
+// ----- READ IMAGE DIMENSIONS
+// Read the pixel dimensions of a PNG, GIF or JPEG file from its header. Returns
+// undefined for other formats or if the header cannot be parsed.
+
+const IMAGE_HEADER_BYTES = 256 * 1024;
+
+export function readImageDimensions(filePath: string): { width: number, height: number } | undefined {
+  const buf = Buffer.alloc(IMAGE_HEADER_BYTES);
+  const fd = fs.openSync(filePath, 'r');
+  let len: number;
+  try {
+    len = fs.readSync(fd, buf, 0, IMAGE_HEADER_BYTES, 0);
+  } finally {
+    fs.closeSync(fd);
+  }
+  if (len >= 24 && buf.toString('latin1', 1, 4) === 'PNG') {
+    return { width: buf.readUInt32BE(16), height: buf.readUInt32BE(20) };
+  } else if (len >= 10 && buf.toString('latin1', 0, 4) === 'GIF8') {
+    return { width: buf.readUInt16LE(6), height: buf.readUInt16LE(8) };
+  } else if (len >= 4 && buf[0] === 0xff && buf[1] === 0xd8) {
+    // walk the JPEG segments until a start-of-frame marker
+    let offset = 2;
+    while (offset + 9 <= len && buf[offset] === 0xff) {
+      const marker = buf[offset + 1];
+      const isStartOfFrame = marker >= 0xc0 && marker <= 0xcf &&
+        ![0xc4, 0xc8, 0xcc].includes(marker);
+      if (isStartOfFrame) {
+        return { width: buf.readUInt16BE(offset + 7), height: buf.readUInt16BE(offset + 5) };
+      }
+      offset += 2 + buf.readUInt16BE(offset + 2);
+    }
+  }
+  return undefined;
+}
+
 // ****************************************************************************
 // ****** GENERAL *************************************************************
 
@@ -225,6 +260,10 @@ export class TimeCachedValue<T> {
     else return (Date.now() - this.timeLastComputed) > this.lifespan;
   }
 
+  invalidate(): void {
+    this.timeLastComputed = undefined;
+  }
+
 }
 
 // ----- CLASSIFY MEDIA FILE
@@ -250,6 +289,13 @@ export function equalPositions(node1: SyntaxNode, node2: SyntaxNode): boolean {
   return node1.startIndex === node2.startIndex && node1.endIndex === node2.endIndex;
 }
 
+// ----- NODE CONTAINS
+// Return a boolean indicating whether `inner` lies within the span of `outer`.
+
+export function nodeContains(outer: SyntaxNode, inner: SyntaxNode): boolean {
+  return outer.startIndex <= inner.startIndex && inner.endIndex <= outer.endIndex;
+}
+
 // ----- FORMAT REFERENCE TEXT
 
 export function formatReferenceText(ref: QW.Reference): string {
@@ -264,6 +310,149 @@ export function formatReferenceText(ref: QW.Reference): string {
   }
 }
 
+// ----- FORMAT FILE SIZE
+
+export function formatFileSize(bytes: number): string {
+  const units = ['B', 'KB', 'MB', 'GB'];
+  let size = bytes;
+  let i = 0;
+  while (size >= 1024 && i < units.length - 1) {
+    size /= 1024;
+    i += 1;
+  }
+  return i === 0 ? `${size} ${units[i]}` : `${size.toFixed(1)} ${units[i]}`;
+}
+
+// ----- GET PATH SIZE
+// Size in bytes of a file, or of all files below a directory.
+
+export function getPathSize(filePath: string): number {
+  const stats = fs.statSync(filePath);
+  if (!stats.isDirectory()) return stats.size;
+  return fs.readdirSync(filePath)
+    .reduce((acc, x) => acc + getPathSize(path.join(filePath, x)), 0);
+}
+
+// ----- FUZZY SCORE
+// Score `target` against `query` as a case-insensitive subsequence match,
+// favoring consecutive runs and matches at word starts. Whitespace in the query
+// is ignored. Returns undefined if the query is not a subsequence of the target.
+
+export function fuzzyScore(query: string, target: string): number | undefined {
+  const q = query.toLowerCase().replace(/\s+/g, '');
+  const t = target.toLowerCase();
+  let score = 0;
+  let ti = 0;
+  let prev = -2;
+  for (let qi = 0; qi < q.length; qi++) {
+    while (ti < t.length && t[ti] !== q[qi]) ti += 1;
+    if (ti === t.length) return undefined;
+    score += 1;
+    if (ti === prev + 1) score += 2;
+    if (ti === 0 || /[\W_]/.test(t[ti - 1])) score += 3;
+    prev = ti;
+    ti += 1;
+  }
+  return score - (t.length - q.length) * 0.01;
+}
+
+// ----- EDIT DISTANCE
+// Levenshtein distance between two strings.
+
+export function editDistance(a: string, b: string): number {
+  let prevRow = [...Array(b.length + 1).keys()];
+  for (let i = 1; i <= a.length; i++) {
+    const row = [i];
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      row.push(Math.min(prevRow[j] + 1, row[j - 1] + 1, prevRow[j - 1] + cost));
+    }
+    prevRow = row;
+  }
+  return prevRow[b.length];
+}
+
+// ----- RANK BY SIMILARITY
+// Return the candidates closest to `target`, ranked by edit distance with a
+// bonus for a shared prefix. Candidates further than a third of the target's
+// length (and at least two edits) are dropped.
+
+export function rankBySimilarity(target: string, candidates: string[], limit: number): string[] {
+  const maxDistance = Math.max(2, Math.ceil(target.length / 3));
+  return candidates
+    .map(x => {
+      const distance = editDistance(target, x);
+      let prefix = 0;
+      while (prefix < Math.min(target.length, x.length) && target[prefix] === x[prefix]) prefix += 1;
+      return { x, distance, score: distance - Math.min(prefix, 4) * 0.25 };
+    })
+    .filter(({ distance }) => distance > 0 && distance <= maxDistance)
+    .sort((a, b) => a.score - b.score)
+    .slice(0, limit)
+    .map(({ x }) => x);
+}
+
+// ----- GET SENTENCE
+// The sentence of `text` around the span from `start` to `end`, bounded by
+// sentence punctuation or a blank line.
+
+export function getSentence(text: string, start: number, end: number): string {
+  const before = text.slice(0, start);
+  const after = text.slice(end);
+  const left = before.split(/[.!?](?=\s)|\n\s*\n/);
+  const right = after.split(/[.!?](?=\s)|\n\s*\n/);
+  return `${left[left.length - 1]}${text.slice(start, end)}${right[0]}`;
+}
+
+// ----- GET WORDS
+// Distinct lowercase words of a text, ignoring short words.
+
+export function getWords(text: string): Set<string> {
+  return new Set((text.toLowerCase().match(/[a-z0-9]{3,}/g) ?? []));
+}
+
+// ----- FIND SECTION TREE PATH
+// Return the chain of section tree nodes from `root` down to the section with
+// the supplied citekey, or undefined if no such section is in the tree.
+
+export function findSectionTreePath(
+  root: SectionTreeNode,
+  citekey: string,
+): SectionTreeNode[] | undefined {
+  if (root.citekey === citekey) return [root];
+  for (const child of root.children) {
+    const childPath = findSectionTreePath(child, citekey);
+    if (childPath !== undefined) return [root, ...childPath];
+  }
+  return undefined;
+}
+
+// ----- GENERATE CITEKEY
+// Derive a citekey from a title, e.g. "The Art of War" -> "the-art-of-war",
+// suffixed with a number if it collides with an existing citekey.
+
+export function generateCitekey(title: string, existing: Set<string>): string {
+  const base = title.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'section';
+  return makeUniqueCitekey(base, existing);
+}
+
+// ----- MAKE UNIQUE CITEKEY
+
+export function makeUniqueCitekey(base: string, existing: Set<string>): string {
+  let citekey = base;
+  for (let i = 2; existing.has(citekey); i++) {
+    citekey = `${base}-${i}`;
+  }
+  return citekey;
+}
+
+// ----- FORMAT HEADER CITEKEY
+// Render a citekey as it is written in front of a section header title.
+
+export function formatHeaderCitekey(citekey: string): string {
+  return `[${citekey}] `;
+}
+
 // ----- GET CAPTURE
 
 export function getCapture<B extends boolean>(